@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+// Fails when a locale catalog is missing keys that english.json defines, or
+// when a language has no translation of a template in templates/
+const fs = require('fs');
+const path = require('path');
+
+const localesDir = path.join(__dirname, '..', 'locales');
+const templatesDir = path.join(__dirname, '..', 'templates');
+const reference = 'english';
+
+const readCatalog = (language) =>
+  JSON.parse(fs.readFileSync(path.join(localesDir, `${language}.json`), 'utf-8'));
+
+// The annotation line under each section, which a translation must keep as is
+const sectionAnnotations = (file) =>
+  fs.readFileSync(file, 'utf-8').split('\n').filter(line => /^<!--\s*weight:/.test(line.trim()));
+
+const referenceKeys = Object.keys(readCatalog(reference));
+const templates = fs.readdirSync(templatesDir).filter(file => file.endsWith('.md'));
+const languages = fs.readdirSync(localesDir)
+  .filter(file => file.endsWith('.json'))
+  .map(file => path.basename(file, '.json'))
+  .filter(language => language !== reference);
+
+let failed = false;
+
+for (const language of languages) {
+  const catalog = readCatalog(language);
+  const missing = referenceKeys.filter(key => !(key in catalog));
+  const extra = Object.keys(catalog).filter(key => !referenceKeys.includes(key));
+
+  if (missing.length > 0) {
+    failed = true;
+    console.log(`❌ ${language}: missing ${missing.length} keys`);
+    missing.forEach(key => console.log(`   - ${key}`));
+  } else {
+    console.log(`✅ ${language}: all ${referenceKeys.length} keys present`);
+  }
+
+  if (extra.length > 0) {
+    console.log(`⚠️  ${language}: ${extra.length} keys not in ${reference}.json`);
+    extra.forEach(key => console.log(`   - ${key}`));
+  }
+
+  const untranslated = templates.filter(file => !fs.existsSync(path.join(templatesDir, language, file)));
+  const mismatched = templates
+    .filter(file => !untranslated.includes(file))
+    .filter(file =>
+      sectionAnnotations(path.join(templatesDir, file)).join('\n') !==
+      sectionAnnotations(path.join(templatesDir, language, file)).join('\n')
+    );
+
+  if (untranslated.length > 0) {
+    failed = true;
+    console.log(`❌ ${language}: missing ${untranslated.length} templates in templates/${language}/`);
+    untranslated.forEach(file => console.log(`   - ${file}`));
+  }
+  if (mismatched.length > 0) {
+    failed = true;
+    console.log(`❌ ${language}: templates whose sections differ from the English ones`);
+    mismatched.forEach(file => console.log(`   - ${file}`));
+  }
+  if (untranslated.length === 0 && mismatched.length === 0) {
+    console.log(`✅ ${language}: all ${templates.length} templates translated`);
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+
+// Fails when a generated prompt has a `## ` heading with no body under it,
+// when a higher complexity drops a section a lower one includes, or when a
+// shipped template section fits no platform's budget
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+require('ts-node').register({ project: path.join(__dirname, '..', 'tsconfig.json'), transpileOnly: true });
+
+const { generatePrompt } = require('../src/generator');
+const { getAvailableLanguages } = require('../src/i18n');
+const { PlatformOptimizer } = require('../src/platform-optimizer');
+const { TemplateLoader } = require('../src/template-loader');
+const { COMPLEXITY_LEVELS } = require('../src/types');
+
+// An empty project, so no example packs take up the budget
+const emptyProject = fs.mkdtempSync(path.join(os.tmpdir(), 'zerocode-check-'));
+process.chdir(emptyProject);
+
+const platforms = new PlatformOptimizer().getSupportedPlatforms();
+const languages = getAvailableLanguages();
+let failed = false;
+
+const fail = (message, details = []) => {
+  failed = true;
+  console.log(`❌ ${message}`);
+  details.forEach(detail => console.log(`   - ${detail}`));
+};
+
+// Names of the sections that made it into a generated prompt, in order
+const includedSections = (prompt) =>
+  prompt.tokens.sections.filter(section => section.included).map(section => section.name);
+
+// Headings whose next non-blank line is another heading of the same or a higher level, or the end
+const emptyHeadings = (prompt) => {
+  const lines = prompt.split('\n');
+  return lines.filter((line, index) => {
+    if (!/^## /.test(line)) return false;
+    const next = lines.slice(index + 1).find(rest => rest.trim() !== '');
+    return next === undefined || /^#{1,2} /.test(next);
+  });
+};
+
+try {
+  for (const platform of platforms) {
+    for (const language of languages) {
+      let previous;
+      for (const complexity of COMPLEXITY_LEVELS) {
+        const prompt = generatePrompt({ platform, complexity, language });
+        const sections = includedSections(prompt);
+        const empty = emptyHeadings(prompt.systemPrompt);
+        if (empty.length > 0) {
+          fail(`${platform}/${complexity}/${language}: ${empty.length} empty headings`, empty);
+        }
+
+        const lost = previous ? previous.sections.filter(section => !sections.includes(section)) : [];
+        if (lost.length > 0) {
+          fail(`${platform}/${complexity}/${language}: drops sections ${previous.complexity} includes`, lost);
+        }
+        previous = { complexity, sections };
+      }
+    }
+  }
+
+  // Every section must make it in somewhere: its own template alone, on the roomiest platform
+  for (const template of new TemplateLoader().loadAll()) {
+    for (const language of languages) {
+      const included = new Set(platforms.flatMap(platform =>
+        includedSections(generatePrompt({ platform, complexity: 'expert', language, principles: [template.name] }))
+      ));
+      const unreachable = new TemplateLoader().load(template.name, language).sections
+        .map(section => section.name)
+        .filter(name => !included.has(name));
+      if (unreachable.length > 0) {
+        fail(`${template.name}/${language}: sections that fit no platform's budget`, unreachable);
+      }
+    }
+  }
+} finally {
+  process.chdir(os.tmpdir());
+  fs.rmSync(emptyProject, { recursive: true, force: true });
+}
+
+if (!failed) {
+  console.log(`✅ ${platforms.length} platforms × ${COMPLEXITY_LEVELS.length} tiers × ${languages.length} languages: every heading has a body, every tier keeps the one below, every section fits somewhere`);
+}
+
+process.exit(failed ? 1 : 0);
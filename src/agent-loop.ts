@@ -0,0 +1,218 @@
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import { join } from 'path';
+import { MessageCatalog, DEFAULT_LANGUAGE } from './i18n';
+import { DEFAULT_RUBRIC, Evaluation, Rubric, evaluateResponse } from './evaluator';
+import { isFenceLine, nextFence } from './markdown-tree';
+import { ZEROCODE_DIR } from './project-rules';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// One chat completion round trip; swap it out to drive the loop without a server
+export type ChatCompletion = (messages: ChatMessage[]) => Promise<string>;
+
+export interface ChatEndpoint {
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export interface RunOptions {
+  task: string;
+  systemPrompt: string; // The ZeroCode prompt every phase works under
+  maxIterations: number; // Specialist attempts per part; there is always at least one
+  maxParts?: number;
+  rubric?: Rubric;
+  language?: string;
+  principles?: string[]; // Whose lint rules score the code; the built-in ones when left out
+  onProgress?: (event: RunEvent) => void;
+}
+
+export type RunEvent =
+  | { type: 'plan'; parts: string[] }
+  | { type: 'attempt'; part: number; iteration: number; evaluation: Evaluation };
+
+export interface RunCall {
+  phase: 'orchestrator' | 'specialist';
+  messages: ChatMessage[];
+  reply: string;
+}
+
+export interface PartAttempt {
+  iteration: number;
+  reply: string;
+  evaluation: Evaluation;
+}
+
+export interface RunPart {
+  title: string;
+  attempts: PartAttempt[];
+  best: PartAttempt; // Highest-scoring attempt, used for the final answer
+}
+
+export interface RunTranscript {
+  task: string;
+  startedAt: string;
+  finishedAt: string;
+  threshold: number;
+  score: number; // Lowest best score across the parts
+  passed: boolean;
+  parts: RunPart[];
+  answer: string; // Best attempt of every part, in plan order
+  calls: RunCall[];
+}
+
+export const DEFAULT_ENDPOINT = 'http://localhost:11434/v1';
+export const DEFAULT_MAX_PARTS = 5;
+
+/**
+ * Drive the Orchestrator → Specialist → Evaluator loop: plan the task,
+ * let a specialist answer each part and retry with Athena's feedback
+ * until the part reaches the threshold or the iteration cap.
+ */
+export async function runAgentLoop(options: RunOptions, complete: ChatCompletion): Promise<RunTranscript> {
+  const messages = new MessageCatalog(options.language);
+  const rubric = options.rubric || DEFAULT_RUBRIC;
+  const startedAt = new Date().toISOString();
+  const calls: RunCall[] = [];
+  // Every part needs an attempt to pick its best one from
+  const maxIterations = Math.max(1, options.maxIterations || 1);
+
+  const call = async (phase: RunCall['phase'], conversation: ChatMessage[]): Promise<string> => {
+    const reply = await complete(conversation);
+    calls.push({ phase, messages: conversation, reply });
+    return reply;
+  };
+
+  // Orchestrator: break the task into parts
+  const plan = await call('orchestrator', [
+    { role: 'system', content: options.systemPrompt },
+    { role: 'user', content: messages.t('run.orchestrator', { task: options.task, max: options.maxParts ?? DEFAULT_MAX_PARTS }) }
+  ]);
+  const titles = parsePlan(plan, options.maxParts ?? DEFAULT_MAX_PARTS);
+  const partTitles = titles.length > 0 ? titles : [options.task];
+  options.onProgress?.({ type: 'plan', parts: partTitles });
+
+  // Specialist and evaluator: answer each part until it passes
+  const parts: RunPart[] = [];
+  for (const [index, title] of partTitles.entries()) {
+    const conversation: ChatMessage[] = [
+      { role: 'system', content: options.systemPrompt },
+      { role: 'user', content: messages.t('run.specialist', { task: options.task, part: title }) }
+    ];
+    const attempts: PartAttempt[] = [];
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const reply = await call('specialist', [...conversation]);
+      const evaluation = evaluateResponse(reply, rubric, options.language || DEFAULT_LANGUAGE, options.principles);
+      attempts.push({ iteration, reply, evaluation });
+      options.onProgress?.({ type: 'attempt', part: index + 1, iteration, evaluation });
+
+      if (evaluation.passed) break;
+      conversation.push({ role: 'assistant', content: reply }, { role: 'user', content: evaluation.feedback });
+    }
+
+    const best = attempts.reduce((top, attempt) => (attempt.evaluation.score > top.evaluation.score ? attempt : top));
+    parts.push({ title, attempts, best });
+  }
+
+  const score = Math.min(...parts.map(part => part.best.evaluation.score));
+  return {
+    task: options.task,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    threshold: rubric.threshold,
+    score,
+    passed: parts.every(part => part.best.evaluation.passed),
+    parts,
+    answer: parts.map(part => `# ${part.title}\n\n${part.best.reply.trim()}`).join('\n\n') + '\n',
+    calls
+  };
+}
+
+/**
+ * A chat completion against an OpenAI-compatible /chat/completions API,
+ * which Ollama, llama.cpp, LM Studio and vLLM all serve
+ */
+export function createChatCompletion(config: ChatEndpoint): ChatCompletion {
+  const url = new URL(`${config.endpoint.replace(/\/+$/, '')}/chat/completions`);
+  const client = url.protocol === 'https:' ? https : http;
+
+  return messages => new Promise((resolve, reject) => {
+    const body = JSON.stringify({ model: config.model, messages, stream: false });
+    const headers: Record<string, string | number> = {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(body)
+    };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const request = client.request(url, { method: 'POST', headers, timeout: config.timeoutMs ?? 300000 }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        if (!response.statusCode || response.statusCode >= 400) {
+          reject(new Error(`${url} answered ${response.statusCode}: ${text.slice(0, 200)}`));
+          return;
+        }
+        try {
+          const content = JSON.parse(text).choices?.[0]?.message?.content;
+          if (typeof content !== 'string') {
+            throw new Error('no choices[0].message.content');
+          }
+          resolve(content);
+        } catch (error: any) {
+          reject(new Error(`Unexpected reply from ${url}: ${error.message}`));
+        }
+      });
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`${url} did not answer within ${config.timeoutMs ?? 300000} ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Save a run to .zerocode/runs/<time>-<task>.json
+ */
+export function saveTranscript(transcript: RunTranscript, projectDir: string = process.cwd()): string {
+  const runsDir = join(projectDir, ZEROCODE_DIR, 'runs');
+  if (!existsSync(runsDir)) {
+    mkdirSync(runsDir, { recursive: true });
+  }
+
+  const slug = transcript.task.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'run';
+  const time = transcript.startedAt.replace(/[:.]/g, '-');
+  const path = join(runsDir, `${time}-${slug}.json`);
+  writeFileSync(path, JSON.stringify(transcript, null, 2));
+  return path;
+}
+
+/**
+ * The numbered or bulleted items of the orchestrator's plan, outside code blocks
+ */
+function parsePlan(plan: string, maxParts: number): string[] {
+  const parts: string[] = [];
+  let fence: string | null = null;
+
+  for (const line of plan.replace(/\r\n/g, '\n').split('\n')) {
+    const inFence = fence !== null;
+    fence = nextFence(fence, line);
+    if (inFence || isFenceLine(line)) continue;
+
+    const item = line.match(/^\s{0,3}(?:\d+[.)]|[-*+])\s+(.+)$/);
+    if (item) {
+      parts.push(item[1].replace(/\*\*|__/g, '').trim());
+    }
+  }
+
+  return parts.slice(0, maxParts);
+}
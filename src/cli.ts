@@ -1,50 +1,298 @@
 #!/usr/bin/env node
 
-import { Command } from "./simple-commander";
+import { Command, parseInteger, parsePositiveInteger } from "./simple-commander";
 import { generatePrompt } from "./generator";
+import { MessageCatalog, getAvailableLanguages } from "./i18n";
+import { loadProjectRules, mergeRules } from "./project-rules";
+import { EXPORT_TARGETS, detectTargets, exportPrompt, exportedTargets, removeExports, renderExport, writeExport } from "./exporter";
+import { analyzeProject, profileToRules, saveProfile } from "./project-analyzer";
+import { buildReviewPrompt, parseDiff, readDiff } from "./review";
+import { checkResponse } from "./response-checker";
+import { evaluateDiff, evaluateResponse, loadRubric, Rubric } from "./evaluator";
+import { createChatCompletion, runAgentLoop, saveTranscript } from "./agent-loop";
+import { validateConfig } from "./config-validator";
+import { closestMatch } from "./suggestions";
+import {
+  CONFIG_KEYS,
+  ConfigKey,
+  DEFAULT_CONFIG,
+  ResolvedConfig,
+  ZerocodeConfig,
+  findProjectConfig,
+  parseConfigValue,
+  readConfigFile,
+  resolveConfig,
+  setConfigValue,
+} from "./config";
+import { getPrincipleNames, getPrinciples, loadPrinciplePlugins, principleLintRules } from "./principles";
+import { WizardAnswers, confirm, createTerminalPrompt, runInitWizard } from "./init-wizard";
+import { COMPLETION_SHELLS, completionScript } from "./completion";
+import { DEFAULT_DIFF_CONTEXT, diffPrompts } from "./prompt-diff";
+import { findLockRoot, lockArtifact, lockKey, lockedConfig, readLock, stampPrompt } from "./provenance";
+import { PlatformOptimizer } from "./platform-optimizer";
+import { VERSION } from "./version";
+import { COMPLEXITY_LEVELS, GeneratedPrompt, ProjectProfile, PromptGeneratorConfig } from "./types";
 import * as fs from "fs";
 import * as path from "path";
 
 const program = new Command();
 
+// Values the parser accepts for the shared options
+const PLATFORMS = new PlatformOptimizer().getSupportedPlatforms();
+const LANGUAGES = getAvailableLanguages();
+const TARGETS = Object.keys(EXPORT_TARGETS);
+
+// Write the prompt into each tool's native rules file
+function writeTargets(
+  targets: string[],
+  config: Omit<PromptGeneratorConfig, "platform">,
+  messages: MessageCatalog,
+  model?: string
+): boolean {
+  const available = Object.keys(EXPORT_TARGETS).join(", ");
+  const unknown = targets.find((target) => !EXPORT_TARGETS[target]);
+  if (unknown) {
+    console.log(messages.t("cli.export.unknownTarget", { target: unknown, targets: available }));
+    return false;
+  }
+
+  const statusMessages = {
+    created: "cli.export.written",
+    updated: "cli.export.updated",
+    skipped: "cli.export.skipped",
+  };
+  targets.forEach((target) => {
+    const result = exportPrompt(target, config, process.cwd(), { model });
+    if (result.provenance) {
+      const platform = EXPORT_TARGETS[target].platform;
+      lockArtifact(findLockRoot() || process.cwd(), result.path, { ...config, platform }, result.provenance, {
+        target,
+        model: platform === "ollama" ? model : undefined,
+      });
+    }
+    console.log(messages.t(statusMessages[result.status], { file: path.relative(process.cwd(), result.path) }));
+  });
+  return true;
+}
+
+// Settings from the global and project config, ZEROCODE_* variables and the flags given
+function loadSettings(options: any): ResolvedConfig {
+  return resolveConfig({
+    platform: options.platform,
+    complexity: options.complexity,
+    language: options.language,
+    rules: options.rule,
+    model: options.model,
+    endpoint: options.endpoint,
+  });
+}
+
+// Load principle plugins, then reject unknown platforms, complexity levels,
+// languages and principles before doing any work
+function checkSettings(settings: ResolvedConfig, messages: MessageCatalog): boolean {
+  const { platform, complexity, language, tokenizer, principles, rules, plugins } = settings.values;
+  const pluginErrors = loadPrinciplePlugins(plugins, settings.projectDir).map((error) =>
+    messages.t("cli.principles.loadFailed", { error })
+  );
+  const result = validateConfig({ platform, complexity, language, tokenizer, principles, customRules: rules }, messages);
+  const errors = [...pluginErrors, ...result.errors];
+
+  settings.warnings.forEach((message) => console.error(messages.t("cli.warning", { message })));
+  errors.forEach((message) => console.error(messages.t("cli.error", { message })));
+  if (errors.length > 0) {
+    process.exitCode = 1;
+  }
+  return errors.length === 0;
+}
+
+// Scores run from 0 to 100, so a threshold outside them would pass or fail everything
+function checkThreshold(threshold: number | undefined, messages: MessageCatalog): boolean {
+  if (threshold === undefined || (threshold >= 0 && threshold <= 100)) return true;
+  console.error(messages.t("cli.evaluate.badThreshold", { value: threshold }));
+  process.exitCode = 1;
+  return false;
+}
+
+// Prompt settings shared by every platform, with rules from every config layer and .zerocode/rules/
+function promptSettings(settings: ResolvedConfig): Omit<PromptGeneratorConfig, "platform"> {
+  const { complexity, language, tokenizer, principles, rules } = settings.values;
+  return { complexity, language, tokenizer, principles, customRules: mergeRules(rules, loadProjectRules(settings.projectDir)) };
+}
+
+// Settings of the prompt activate saves to .zerocode/universal-prompt.md
+function universalConfig(settings: ResolvedConfig): PromptGeneratorConfig {
+  return { ...promptSettings(settings), platform: "universal" };
+}
+
+// Settings of the prompt zinit saves to .zerocode/zeus-orchestrator.md, with rules from the project profile
+function orchestratorConfig(settings: ResolvedConfig, profile: ProjectProfile, messages: MessageCatalog): PromptGeneratorConfig {
+  const config = promptSettings(settings);
+  return {
+    ...config,
+    platform: "universal",
+    complexity: "basic",
+    customRules: mergeRules(profileToRules(profile, messages), config.customRules),
+  };
+}
+
+// Write a prompt with its provenance header and record it in the project's .zerocode/lock.json.
+// Unless asked to lock, only a project that already has a lockfile gets the entry.
+function saveArtifact(file: string, config: PromptGeneratorConfig, prompt: GeneratedPrompt, lock: boolean = true): void {
+  fs.writeFileSync(file, stampPrompt(prompt));
+  const root = findLockRoot();
+  if (lock || root) {
+    lockArtifact(root || process.cwd(), path.resolve(file), config, prompt.provenance);
+  }
+}
+
+// The detected stack, as zinit and init show it
+function printProfile(profile: ProjectProfile, messages: MessageCatalog): void {
+  const technologies = [...profile.languages, ...profile.frameworks];
+
+  console.log(
+    messages.t("cli.zinit.technologies", {
+      technologies: technologies.join(", ") || messages.t("cli.zinit.noneDetected"),
+    })
+  );
+  if (profile.testRunners.length > 0) {
+    console.log(messages.t("cli.zinit.testRunners", { runners: profile.testRunners.join(", ") }));
+  }
+  if (profile.packageManager) {
+    console.log(messages.t("cli.zinit.packageManager", { manager: profile.packageManager }));
+  }
+  if (profile.monorepo) {
+    console.log(
+      messages.t("cli.zinit.monorepo", {
+        tool: profile.monorepo.tool,
+        count: profile.monorepo.packages.length,
+      })
+    );
+  }
+}
+
 program
   .name("zerocode")
   .description("ZeroCode - AI development framework")
-  .version("1.0.1");
+  .version(VERSION)
+  .example("activate", "Set up ZeroCode for this project")
+  .example("generate -p cursor -c advanced", "Prompt for Cursor")
+  .example("export --target claude copilot", "Write CLAUDE.md and Copilot instructions")
+  .example("config set platform cursor", "Make Cursor the project default");
 
 // Generate command
 program
   .command("generate")
   .description("Generate AI prompt")
-  .option("-p, --platform <platform>", "AI platform", "universal")
-  .option("-c, --complexity <level>", "Complexity level", "basic")
-  .option("-l, --language <lang>", "Language", "english")
+  .option("-p, --platform <platform>", "AI platform", { choices: PLATFORMS })
+  .option("-c, --complexity <level>", "Complexity level", { choices: COMPLEXITY_LEVELS })
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
   .option("-o, --output <file>", "Save to file")
+  .option("-r, --rule <rule...>", "Add a project rule (repeatable)")
+  .option("--lock", "Record --output in .zerocode/lock.json (done anyway once the project has one)")
+  .option("--frozen", "Rebuild the files in .zerocode/lock.json (or just --output) exactly as they were locked")
   .action((options: any) => {
-    const config = {
-      platform: options.platform,
-      complexity: options.complexity,
-      language: options.language,
-      customRules: [],
-    };
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
+    if (options.frozen) {
+      if (options.platform || options.complexity || options.language || options.rule) {
+        console.error(messages.t("cli.generate.frozenFlags"));
+        process.exitCode = 1;
+      } else if (!rebuildLocked(options.output, messages)) {
+        process.exitCode = 1;
+      }
+      return;
+    }
 
+    const config = { ...promptSettings(settings), platform: settings.values.platform };
     const result = generatePrompt(config);
 
     if (options.output) {
-      fs.writeFileSync(options.output, result.systemPrompt);
-      console.log(`✅ Saved to: ${options.output}`);
+      saveArtifact(options.output, config, result, Boolean(options.lock));
+      console.log(messages.t("cli.saved", { file: options.output }));
+    } else {
+      console.log(stampPrompt(result));
+    }
+
+    // Keep stdout clean for piping when the prompt itself goes there
+    const report = options.output ? console.log : console.error;
+    result.appliedOptimizations.forEach((message) =>
+      report(messages.t("cli.applied", { message }))
+    );
+    result.warnings.forEach((message) =>
+      report(messages.t("cli.warning", { message }))
+    );
+    result.tokens.sections.forEach(({ name, tokens, included }) =>
+      report(messages.t(included ? "cli.tokens.section" : "cli.tokens.skipped", { name, tokens }))
+    );
+    const { total, budget, counter } = result.tokens;
+    report(messages.t("cli.tokens.total", { total, budget, counter }));
+  });
+
+/**
+ * Generate the files in the nearest .zerocode/lock.json again from the settings
+ * recorded there. Nothing is written unless every one comes out with its locked hash.
+ */
+function rebuildLocked(only: string | undefined, messages: MessageCatalog): boolean {
+  const root = findLockRoot();
+  const artifacts = root
+    ? Object.entries(readLock(root).artifacts).filter(([file]) => !only || file === lockKey(root, path.resolve(only)))
+    : [];
+  if (!root || artifacts.length === 0) {
+    console.error(messages.t(only ? "cli.generate.notLocked" : "cli.generate.noLock", { file: only || "" }));
+    return false;
+  }
+
+  const rebuilt: { file: string; target?: string; model?: string; prompt: GeneratedPrompt }[] = [];
+  for (const [file, entry] of artifacts) {
+    if (entry.version !== VERSION) {
+      console.error(messages.t("cli.generate.frozenVersion", { file, locked: entry.version, current: VERSION }));
+      continue;
+    }
+    const prompt = generatePrompt(lockedConfig(entry, root));
+    if (prompt.provenance.hash !== entry.hash) {
+      console.error(messages.t("cli.generate.frozenChanged", { file }));
+      continue;
+    }
+    rebuilt.push({ file, target: entry.target, model: entry.model, prompt });
+  }
+  if (rebuilt.length < artifacts.length) {
+    console.error(messages.t("cli.generate.frozenNothingWritten"));
+    return false;
+  }
+
+  rebuilt.forEach(({ file, target, model, prompt }) => {
+    const filePath = path.join(root, file);
+    if (target) {
+      // Exports may sit in a package below the lock, so write them where they were
+      const targetDir = filePath.slice(0, filePath.length - EXPORT_TARGETS[target].path.length);
+      const result = writeExport(target, prompt, targetDir, { model });
+      if (result.status === "skipped") {
+        console.log(messages.t("cli.export.skipped", { file }));
+        return;
+      }
     } else {
-      console.log(result.systemPrompt);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, stampPrompt(prompt));
     }
+    console.log(messages.t("cli.generate.rebuilt", { file }));
   });
+  return true;
+}
 
 // Demo command - show the difference ZeroCode makes
 program
   .command("demo")
   .description("👀 See the difference ZeroCode makes")
-  .action(() => {
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
     console.log(`
-${'\x1b[31m'}❌ WITHOUT ZeroCode, AI gives you:${'\x1b[0m'}
+${'\x1b[31m'}${messages.t("cli.demo.without")}${'\x1b[0m'}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 class AbstractFactoryManagerSingletonProxy {
   constructor(injector, validator, cache) {
@@ -61,7 +309,7 @@ class AbstractFactoryManagerSingletonProxy {
   }
 }
 
-${'\x1b[32m'}✅ WITH ZeroCode, AI gives you:${'\x1b[0m'}
+${'\x1b[32m'}${messages.t("cli.demo.with")}${'\x1b[0m'}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 function getUser(id) {
   return db.query('SELECT * FROM users WHERE id = ?', [id]);
@@ -75,25 +323,115 @@ function createUser(email, name) {
   );
 }
 
-${'\x1b[36m'}💡 See the difference?${'\x1b[0m'}
-• Simple functions that do ONE thing
-• Code you can understand in 5 seconds
-• No unnecessary abstractions
-• Actually works!
+${'\x1b[36m'}${messages.t("cli.demo.seeDifference")}${'\x1b[0m'}
+${messages.t("cli.demo.points")}
 
-${'\x1b[33m'}Ready to fix your AI?${'\x1b[0m'} Run: ${'\x1b[32m'}zerocode activate${'\x1b[0m'}
+${'\x1b[33m'}${messages.t("cli.demo.ready")}${'\x1b[0m'} ${messages.t("cli.demo.run")} ${'\x1b[32m'}zerocode activate${'\x1b[0m'}
 `);
   });
 
+// Init command - set up the project step by step
+program
+  .command("init")
+  .description("🧙 Set up ZeroCode step by step: AI tools, complexity, language, principles and rules")
+  .option("-y, --yes", "Take the detected tools and current settings without asking")
+  .option("-t, --target <target...>", "AI tools to write rules for", { choices: TARGETS })
+  .option("-c, --complexity <level>", "Complexity level", { choices: COMPLEXITY_LEVELS })
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .option("-r, --rule <rule...>", "Add a project rule (repeatable)")
+  .action(async (options: any) => {
+    const currentDir = process.cwd();
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
+    console.log(messages.t("cli.init.start", { project: path.basename(currentDir) }));
+    printProfile(analyzeProject(currentDir), messages);
+
+    const defaults: WizardAnswers = {
+      targets: options.target || detectTargets(currentDir),
+      complexity: settings.values.complexity,
+      language: settings.values.language,
+      principles: settings.values.principles,
+      rules: options.rule || [],
+    };
+
+    let answers = defaults;
+    const terminal = options.yes ? undefined : createTerminalPrompt();
+    try {
+      if (terminal) {
+        answers = await runInitWizard(
+          defaults,
+          { targets: TARGETS, complexities: COMPLEXITY_LEVELS, languages: LANGUAGES, principles: getPrincipleNames() },
+          terminal.ask,
+          messages
+        );
+      }
+
+      // What each tool's prompt costs with these answers
+      const { targets, complexity, language, principles, rules } = answers;
+      const config = {
+        ...promptSettings(settings),
+        complexity,
+        language,
+        principles,
+        customRules: mergeRules(settings.values.rules, rules, loadProjectRules(settings.projectDir)),
+      };
+      console.log(`\n${messages.t("cli.init.preview")}`);
+      (targets.length > 0 ? targets : ["universal"]).forEach((target) => {
+        const platform = EXPORT_TARGETS[target]?.platform || "universal";
+        const { total, budget, sections } = generatePrompt({ ...config, platform }).tokens;
+        const skipped = sections.filter((section) => !section.included).length;
+        console.log(messages.t(skipped > 0 ? "cli.init.budgetSkipped" : "cli.init.budget", { target, total, budget, skipped }));
+      });
+
+      if (terminal && !(await confirm(messages.t("cli.init.confirm"), terminal.ask, messages))) {
+        console.log(messages.t("cli.init.cancelled"));
+        return;
+      }
+    } finally {
+      terminal?.close();
+    }
+
+    // Rules from the flags and the wizard go next to the ones the project already has
+    const projectFile = findProjectConfig(currentDir);
+    const projectRules = (projectFile && (readConfigFile(projectFile).rules as string[])) || [];
+    const values: Partial<ZerocodeConfig> = {
+      complexity: answers.complexity,
+      language: answers.language,
+      principles: answers.principles,
+      rules: mergeRules(projectRules, answers.rules),
+    };
+    let file = "";
+    for (const [key, value] of Object.entries(values)) {
+      file = setConfigValue(key as ConfigKey, value, "project");
+    }
+    console.log(messages.t("cli.saved", { file: path.relative(currentDir, file) }));
+
+    // From here on, speak the language just chosen
+    const saved = loadSettings({});
+    const chosen = new MessageCatalog(saved.values.language);
+    if (answers.targets.length > 0 && !writeTargets(answers.targets, promptSettings(saved), chosen, saved.values.model)) {
+      process.exitCode = 1;
+      return;
+    }
+    console.log(chosen.t("cli.init.done"));
+  });
+
 // Activate command
 program
   .command("activate")
   .description("🚀 Activate ZeroCode for this project")
-  .action(() => {
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .option("-t, --target <target...>", "Also write native rules for these tools", { choices: TARGETS })
+  .action((options: any) => {
     const currentDir = process.cwd();
     const projectName = path.basename(currentDir);
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
 
-    console.log(`🚀 Activating ZeroCode for: ${projectName}`);
+    console.log(messages.t("cli.activate.start", { project: projectName }));
 
     // Create .zerocode directory
     const zerocodeDir = path.join(currentDir, ".zerocode");
@@ -101,71 +439,99 @@ program
       fs.mkdirSync(zerocodeDir, { recursive: true });
     }
 
-    // Generate universal prompt
-    const config = {
-      platform: "universal" as const,
-      complexity: "basic" as const,
-      language: "english" as const,
-      customRules: [],
-    };
-    const prompt = generatePrompt(config);
-
-    // Save prompt
+    // Save universal prompt
     const promptPath = path.join(zerocodeDir, "universal-prompt.md");
-    fs.writeFileSync(promptPath, prompt.systemPrompt);
+    const config = universalConfig(settings);
+    saveArtifact(promptPath, config, generatePrompt(config));
 
-    // Create config
+    // Create config, keeping fields the team added by hand (like rules)
     const configPath = path.join(zerocodeDir, "config.json");
+    const existingConfig = fs.existsSync(configPath)
+      ? JSON.parse(fs.readFileSync(configPath, "utf-8"))
+      : {};
     const configData = {
-      version: "1.0.1",
+      ...existingConfig,
+      version: VERSION,
       project: projectName,
       initialized: new Date().toISOString(),
-      principles: ["hickey", "linus", "zeus"],
+      principles: existingConfig.principles ?? DEFAULT_CONFIG.principles,
     };
     fs.writeFileSync(configPath, JSON.stringify(configData, null, 2));
 
-    console.log("✅ ZeroCode activated!");
-    console.log("📁 Created .zerocode directory");
-    console.log("🎯 Hickey/Linus/Zeus principles active");
-    console.log(
-      "\n💡 Next: Copy .zerocode/universal-prompt.md to your AI tool"
-    );
+    console.log(messages.t("cli.activate.done"));
+    console.log(messages.t("cli.activate.createdDir"));
+    console.log(messages.t("cli.activate.principles"));
+
+    if (options.target) {
+      if (!writeTargets(options.target, promptSettings(settings), messages)) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    console.log(`\n${messages.t("cli.activate.next")}`);
+  });
+
+// Deactivate command - undo activate and export
+program
+  .command("deactivate")
+  .description("🧹 Remove ZeroCode from this project")
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+    const results = removeExports(process.cwd());
+
+    if (results.length === 0) {
+      console.log(messages.t("cli.deactivate.nothing"));
+      return;
+    }
+
+    results.forEach((result) => {
+      const key = result.status === "deleted" ? "cli.deactivate.deleted" : "cli.deactivate.blockRemoved";
+      console.log(messages.t(key, { file: path.relative(process.cwd(), result.path) }));
+    });
+    console.log(messages.t("cli.deactivate.done"));
+  });
+
+// Export command - write prompts where each AI tool reads them
+program
+  .command("export")
+  .description("📤 Write native rule files for your AI tools")
+  .option("-t, --target <target...>", "Tools to write rules for", { choices: TARGETS, required: true })
+  .option("-c, --complexity <level>", "Complexity level", { choices: COMPLEXITY_LEVELS })
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .option("-r, --rule <rule...>", "Add a project rule (repeatable)")
+  .option("-m, --model <model>", "Base model for the Ollama Modelfile")
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
+    if (!writeTargets(options.target, promptSettings(settings), messages, settings.values.model)) {
+      process.exitCode = 1;
+    }
   });
 
 // Project analysis command
 program
   .command("zinit")
   .description("🔍 Analyze project")
-  .action(() => {
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => {
     const currentDir = process.cwd();
     const projectName = path.basename(currentDir);
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
 
-    console.log(`🔍 Analyzing project: ${projectName}`);
+    console.log(messages.t("cli.zinit.start", { project: projectName }));
 
-    // Simple project analysis
-    const technologies = [];
-    if (fs.existsSync("package.json"))
-      technologies.push("JavaScript/TypeScript");
-    if (fs.existsSync("requirements.txt")) technologies.push("Python");
-    if (fs.existsSync("Cargo.toml")) technologies.push("Rust");
-    if (fs.existsSync("go.mod")) technologies.push("Go");
+    const profile = analyzeProject(currentDir);
+    printProfile(profile, messages);
 
-    console.log(
-      `📊 Technologies: ${technologies.join(", ") || "None detected"}`
-    );
-
-    // Generate project-specific prompt
-    const config = {
-      platform: "universal" as const,
-      complexity: "basic" as const,
-      language: "english" as const,
-      customRules: [
-        `Project: ${projectName}`,
-        `Technologies: ${technologies.join(", ")}`,
-      ],
-    };
-
-    const prompt = generatePrompt(config);
+    saveProfile(profile, currentDir);
 
     // Save Zeus orchestrator
     const zerocodeDir = path.join(currentDir, ".zerocode");
@@ -174,11 +540,536 @@ program
     }
 
     const zeusPath = path.join(zerocodeDir, "zeus-orchestrator.md");
-    fs.writeFileSync(zeusPath, prompt.systemPrompt);
+    const config = orchestratorConfig(settings, profile, messages);
+    saveArtifact(zeusPath, config, generatePrompt(config));
+
+    console.log(messages.t("cli.zinit.done"));
+    console.log(messages.t("cli.zinit.savedProfile"));
+    console.log(messages.t("cli.zinit.createdFile"));
+    console.log(messages.t("cli.zinit.orchestrate"));
+  });
+
+// Lint command - check the code itself against the Hickey/Linus rules
+program
+  .command("lint")
+  .description("🔎 Check your code for Hickey/Linus anti-patterns")
+  .option("-p, --path <path...>", "Files or directories to scan", { default: ["."] })
+  .option("-j, --json", "Print findings as JSON for CI")
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
+    const { principles } = settings.values;
+    // The linter brings the whole TypeScript compiler, so only lint loads it
+    const { CodeLinter }: typeof import("./linter") = require("./linter");
+    const linter = new CodeLinter(messages, process.cwd(), principleLintRules(principles), principles);
+    const { files, findings } = linter.lint(options.path);
+
+    if (options.json) {
+      console.log(JSON.stringify(findings, null, 2));
+    } else if (findings.length === 0) {
+      console.log(messages.t("cli.lint.clean", { files: files.length }));
+    } else {
+      findings.forEach((finding) =>
+        console.log(
+          messages.t("cli.lint.finding", {
+            location: `${finding.file}:${finding.line}:${finding.column}`,
+            message: finding.message,
+            principle: finding.principle,
+            rule: finding.rule,
+          })
+        )
+      );
+      console.log(`\n${messages.t("cli.lint.summary", { count: findings.length, files: new Set(findings.map((f) => f.file)).size })}`);
+    }
+
+    if (findings.length > 0) {
+      process.exitCode = 1;
+    }
+  });
 
-    console.log("✅ Project analyzed!");
-    console.log("📁 Created zeus-orchestrator.md");
-    console.log("🎯 Zeus will orchestrate based on your project");
+// Review command - turn a diff into a Zeus-structured review request
+program
+  .command("review")
+  .description("📝 Build a code review prompt from a git diff")
+  .option("-s, --staged", "Review staged changes (default)")
+  .option("-r, --range <range>", "Review a commit range, e.g. main..HEAD")
+  .option("-f, --patch <file>", "Review a patch file")
+  .option("-u, --unified <lines>", "Context lines around each change", { default: 5, parse: parseInteger })
+  .option("-p, --platform <platform>", "AI platform", { choices: PLATFORMS })
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .option("-o, --output <file>", "Save to file")
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
+    let diff: string;
+    try {
+      diff = readDiff({
+        staged: !options.range,
+        range: options.range,
+        patchFile: options.patch,
+        context: options.unified,
+      });
+    } catch (error: any) {
+      const detail = (error.stderr || error.message || "").toString().trim().split("\n")[0];
+      console.error(messages.t("cli.review.failed", { error: detail }));
+      process.exitCode = 1;
+      return;
+    }
+
+    const files = parseDiff(diff);
+    if (files.length === 0) {
+      console.error(messages.t("cli.review.empty"));
+      return;
+    }
+
+    const review = buildReviewPrompt(files, settings.values);
+
+    if (options.output) {
+      fs.writeFileSync(options.output, review.prompt);
+      console.log(messages.t("cli.saved", { file: options.output }));
+    } else {
+      process.stdout.write(review.prompt);
+    }
+
+    // Keep stdout clean for piping when the prompt itself goes there
+    const report = options.output ? console.log : console.error;
+    const { files: fileCount, hunks, tokens, budget } = review;
+    report(messages.t("cli.review.summary", { files: fileCount, hunks, tokens, budget }));
+    if (review.omitted.length > 0) {
+      report(messages.t("cli.review.omitted", { count: review.omitted.length, platform: settings.values.platform }));
+    }
+  });
+
+// Check-response command - does a saved AI reply follow the Zeus structure?
+program
+  .command("check-response")
+  .description("✔️  Check an AI reply for the Zeus response structure")
+  .option("-f, --file <file>", "Saved reply (markdown); reads stdin when omitted")
+  .option("-j, --json", "Print the result as JSON for CI")
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
+    if (!options.file && process.stdin.isTTY) {
+      console.error(messages.t("cli.check.noInput"));
+      process.exitCode = 1;
+      return;
+    }
+
+    const reply = fs.readFileSync(options.file || 0, "utf-8");
+    const result = checkResponse(reply, settings.values.language);
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      console.log(messages.t(result.valid ? "cli.check.valid" : "cli.check.invalid"));
+      result.errors.forEach((message) => console.log(messages.t("cli.check.error", { message })));
+      result.warnings.forEach((message) => console.log(`  ${messages.t("cli.warning", { message })}`));
+    }
+
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("evaluate")
+  .description("🦉 Athena: score an AI reply or a code change against the quality rubric")
+  .option("-f, --file <file>", "Saved reply (markdown); reads stdin when omitted")
+  .option("-s, --staged", "Score the staged changes instead of a reply")
+  .option("-r, --range <range>", "Score a commit range, e.g. main..HEAD")
+  .option("--patch <file>", "Score a patch file")
+  .option("-t, --threshold <score>", "Minimum passing score (default from the rubric: 90)", { parse: parseInteger })
+  .option("--rubric <file>", "Rubric overrides (default .zerocode/rubric.json)")
+  .option("-j, --json", "Print the result as JSON for CI")
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages) || !checkThreshold(options.threshold, messages)) return;
+    const scoresDiff = options.staged || options.range || options.patch;
+
+    if (!scoresDiff && !options.file && process.stdin.isTTY) {
+      console.error(messages.t("cli.evaluate.noInput"));
+      process.exitCode = 1;
+      return;
+    }
+
+    let rubric: Rubric;
+    try {
+      rubric = loadRubric(process.cwd(), options.rubric, messages);
+    } catch (error: any) {
+      console.error(messages.t("cli.evaluate.badRubric", { error: error.message }));
+      process.exitCode = 1;
+      return;
+    }
+    if (options.threshold !== undefined) {
+      rubric = { ...rubric, threshold: options.threshold };
+    }
+
+    let evaluation;
+    if (scoresDiff) {
+      try {
+        const diff = readDiff({ staged: !options.range, range: options.range, patchFile: options.patch });
+        evaluation = evaluateDiff(parseDiff(diff), rubric, settings.values.language, settings.values.principles);
+      } catch (error: any) {
+        const detail = (error.stderr || error.message || "").toString().trim().split("\n")[0];
+        console.error(messages.t("cli.review.failed", { error: detail }));
+        process.exitCode = 1;
+        return;
+      }
+    } else {
+      const reply = fs.readFileSync(options.file || 0, "utf-8");
+      evaluation = evaluateResponse(reply, rubric, settings.values.language, settings.values.principles);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(evaluation, null, 2));
+    } else {
+      for (const criterion of evaluation.criteria) {
+        const name = messages.t(`evaluate.criterion.${criterion.name}`);
+        const { score, weight } = criterion;
+        console.log(criterion.applicable
+          ? messages.t("cli.evaluate.criterion", { name, score, weight })
+          : messages.t("cli.evaluate.skipped", { name }));
+      }
+      const { score, threshold } = evaluation;
+      console.log(messages.t(evaluation.passed ? "cli.evaluate.passed" : "cli.evaluate.failed", { score, threshold }));
+      console.log("");
+      console.log(evaluation.feedback);
+    }
+
+    if (!evaluation.passed) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command("run")
+  .description("⚡ Run the Zeus → Poseidon → Athena loop on a task with a local model")
+  .argument("<task...>", "What the model should work on")
+  .option("-e, --endpoint <url>", "OpenAI-compatible API base URL")
+  .option("-m, --model <model>", "Model name")
+  .option("-n, --iterations <count>", "Attempts per part before giving up", { default: 3, parse: parsePositiveInteger })
+  .option("-t, --threshold <score>", "Score each part must reach (default from the rubric: 90)", { parse: parseInteger })
+  .option("--rubric <file>", "Rubric overrides (default .zerocode/rubric.json)")
+  .option("-p, --platform <platform>", "Platform the prompt is shaped for", { choices: PLATFORMS, default: "ollama" })
+  .option("-o, --output <file>", "Save the final answer to a file")
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action(async (options: any, args: string[]) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages) || !checkThreshold(options.threshold, messages)) return;
+    const task = args.join(" ").trim();
+
+    if (!task) {
+      console.error(messages.t("cli.run.noTask"));
+      process.exitCode = 1;
+      return;
+    }
+
+    const currentDir = process.cwd();
+    // Prefer the orchestrator zinit tailored to this project
+    const zeusPath = path.join(currentDir, ".zerocode", "zeus-orchestrator.md");
+    const systemPrompt = fs.existsSync(zeusPath)
+      ? fs.readFileSync(zeusPath, "utf-8")
+      : generatePrompt({ ...promptSettings(settings), platform: options.platform }).systemPrompt;
+
+    const iterations: number = options.iterations;
+    try {
+      let rubric = loadRubric(currentDir, options.rubric, messages);
+      if (options.threshold !== undefined) {
+        rubric = { ...rubric, threshold: options.threshold };
+      }
+
+      console.log(messages.t("cli.run.start", { task, model: settings.values.model, endpoint: settings.values.endpoint }));
+
+      const complete = createChatCompletion({
+        endpoint: settings.values.endpoint,
+        model: settings.values.model,
+        apiKey: process.env.ZEROCODE_API_KEY || process.env.OPENAI_API_KEY,
+      });
+
+      const transcript = await runAgentLoop(
+        {
+          task,
+          systemPrompt,
+          maxIterations: iterations,
+          rubric,
+          language: settings.values.language,
+          principles: settings.values.principles,
+          onProgress: (event) => {
+            if (event.type === "plan") {
+              console.log(messages.t("cli.run.plan", { count: event.parts.length }));
+              event.parts.forEach((title, index) => console.log(messages.t("cli.run.part", { index: index + 1, title })));
+            } else {
+              const { part, iteration } = event;
+              console.log(messages.t("cli.run.attempt", { part, iteration, score: event.evaluation.score }));
+            }
+          },
+        },
+        complete
+      );
+
+      const { score, threshold } = transcript;
+      console.log(
+        transcript.passed
+          ? messages.t("cli.run.passed", { score, threshold })
+          : messages.t("cli.run.failed", { score, threshold, iterations })
+      );
+      console.log(messages.t("cli.run.transcript", { file: path.relative(currentDir, saveTranscript(transcript, currentDir)) }));
+
+      if (options.output) {
+        fs.writeFileSync(options.output, transcript.answer);
+        console.log(messages.t("cli.saved", { file: options.output }));
+      } else {
+        console.log("\n" + transcript.answer);
+      }
+
+      if (!transcript.passed) {
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      console.error(messages.t("cli.run.error", { error: error.message }));
+      process.exitCode = 1;
+    }
+  });
+
+// Diff command - saved prompts against what the current config generates
+program
+  .command("diff")
+  .description("🔀 Compare the saved prompts and rule files with what the current config generates")
+  .option("--check", "Only list what is out of date, and exit 1 if anything is (for CI)")
+  .option("-u, --unified <lines>", "Context lines around each change", { default: DEFAULT_DIFF_CONTEXT, parse: parseInteger })
+  .option("-c, --complexity <level>", "Complexity level the files were written with", { choices: COMPLEXITY_LEVELS })
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .option("-r, --rule <rule...>", "Project rule the files were written with (repeatable)")
+  .option("-m, --model <model>", "Base model of the Ollama Modelfile")
+  .action((options: any) => {
+    const settings = loadSettings(options);
+    const messages = new MessageCatalog(settings.values.language);
+    if (!checkSettings(settings, messages)) return;
+
+    // Every file activate, zinit and export wrote in the project, with what they would write now
+    const projectDir = settings.projectDir || process.cwd();
+    const zerocodeDir = path.join(projectDir, ".zerocode");
+    const files = [
+      {
+        file: path.join(zerocodeDir, "universal-prompt.md"),
+        current: () => stampPrompt(generatePrompt({ ...universalConfig(settings), projectDir })),
+      },
+      {
+        file: path.join(zerocodeDir, "zeus-orchestrator.md"),
+        current: () => stampPrompt(generatePrompt({ ...orchestratorConfig(settings, analyzeProject(projectDir), messages), projectDir })),
+      },
+      ...exportedTargets(projectDir).map((target) => ({
+        file: path.join(projectDir, EXPORT_TARGETS[target].path),
+        current: () => renderExport(target, promptSettings(settings), projectDir, { model: settings.values.model }) || "",
+      })),
+    ].filter(({ file }) => fs.existsSync(file));
+
+    // Under --check, finding nothing to compare must not pass as up to date
+    if (files.length === 0) {
+      console.log(messages.t("cli.diff.nothingSaved"));
+      if (options.check) process.exitCode = 1;
+      return;
+    }
+
+    let stale = 0;
+    for (const { file, current } of files) {
+      const name = path.relative(projectDir, file);
+      const diff = diffPrompts(fs.readFileSync(file, "utf-8"), current(), { saved: `a/${name}`, current: `b/${name}` }, options.unified);
+
+      if (!diff.changed) {
+        if (options.check) console.log(messages.t("cli.diff.upToDate", { file: name }));
+        continue;
+      }
+      stale++;
+
+      if (!options.check) {
+        process.stdout.write(process.stdout.isTTY ? colorDiff(diff.text) : diff.text);
+        continue;
+      }
+      console.log(messages.t("cli.diff.stale", { file: name, count: diff.sections.length }));
+      diff.sections.forEach(({ title, status, added, removed }) =>
+        console.log(messages.t(`cli.diff.${status}`, { title: title || messages.t("cli.diff.preamble"), added, removed }))
+      );
+    }
+
+    if (stale === 0 && !options.check) {
+      console.log(messages.t("cli.diff.allUpToDate"));
+    }
+    if (stale > 0 && options.check) {
+      console.log(messages.t("cli.diff.refresh"));
+      process.exitCode = 1;
+    }
+  });
+
+// Red removals, green additions and cyan hunk headers, like git
+function colorDiff(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("@@")) return `\x1b[36m${line}\x1b[0m`;
+      if (line.startsWith("+") && !line.startsWith("+++")) return `\x1b[32m${line}\x1b[0m`;
+      if (line.startsWith("-") && !line.startsWith("---")) return `\x1b[31m${line}\x1b[0m`;
+      return line;
+    })
+    .join("\n");
+}
+
+// Config command - show and change settings
+const configCommand = program
+  .command("config")
+  .description("⚙️  Show or change settings (lists them when no command is given)")
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => listConfig(options));
+
+configCommand
+  .command("list")
+  .description("Every setting and where it came from")
+  .action((options: any) => listConfig(options));
+
+configCommand
+  .command("get")
+  .description("One setting and where it came from")
+  .argument("<key>", `One of: ${CONFIG_KEYS.join(", ")}`)
+  .action((options: any, [key]: string[]) => {
+    const { settings, messages } = openConfig(options);
+    if (!checkConfigKey(key, messages)) return;
+    console.log(describeSetting(settings, key as ConfigKey, messages));
+  });
+
+configCommand
+  .command("set")
+  .description("Change a setting in the project config")
+  .argument("<key>", `One of: ${CONFIG_KEYS.join(", ")}`)
+  .argument("<value...>", "New value; lists are comma-separated, rules go one per line")
+  .option("-g, --global", "Write to ~/.config/zerocode/config.json instead of the project")
+  .action((options: any, [key, ...rest]: string[]) => {
+    const { messages } = openConfig(options);
+    if (!checkConfigKey(key, messages)) return;
+
+    const value = parseConfigValue(key as ConfigKey, rest.join(" "));
+    const field = key === "rules" ? "customRules" : key;
+    const result = validateConfig({ [field]: value }, messages);
+    if (!result.valid) {
+      result.errors.forEach((message) => console.error(messages.t("cli.error", { message })));
+      process.exitCode = 1;
+      return;
+    }
+
+    const file = setConfigValue(key as ConfigKey, value, options.global ? "global" : "project");
+    console.log(messages.t("cli.config.set", {
+      key,
+      value: settingText(key as ConfigKey, value),
+      file: path.relative(process.cwd(), file) || file,
+    }));
+  });
+
+// Settings for the config command. Plugins name principles that `set principles`
+// may turn on; a broken one must not block fixing the config.
+function openConfig(options: any): { settings: ResolvedConfig; messages: MessageCatalog } {
+  const settings = loadSettings(options);
+  const messages = new MessageCatalog(settings.values.language);
+  const pluginErrors = loadPrinciplePlugins(settings.values.plugins, settings.projectDir).map((error) =>
+    messages.t("cli.principles.loadFailed", { error })
+  );
+  [...settings.warnings, ...pluginErrors].forEach((message) => console.error(messages.t("cli.warning", { message })));
+  return { settings, messages };
+}
+
+function listConfig(options: any): void {
+  const { settings, messages } = openConfig(options);
+  CONFIG_KEYS.forEach((name) => console.log(describeSetting(settings, name, messages)));
+}
+
+function describeSetting(settings: ResolvedConfig, name: ConfigKey, messages: MessageCatalog): string {
+  const value = settings.values[name];
+  const origins = settings.origins[name].map(({ source, location }) =>
+    messages.t(`cli.config.source.${source}`, { location: location ? path.relative(process.cwd(), location) || location : "" })
+  );
+  return messages.t("cli.config.entry", {
+    key: name,
+    value: settingText(name, value) || "-",
+    source: origins.join(" + "),
+  });
+}
+
+// Rules may contain commas themselves, so they are told apart with semicolons
+function settingText(name: ConfigKey, value: unknown): string {
+  return Array.isArray(value) ? value.join(name === "rules" ? "; " : ", ") : String(value);
+}
+
+function checkConfigKey(key: string, messages: MessageCatalog): boolean {
+  if (CONFIG_KEYS.includes(key as ConfigKey)) {
+    return true;
+  }
+
+  const suggestion = closestMatch(key, CONFIG_KEYS);
+  console.error(messages.t("cli.error", {
+    message: messages.t(suggestion ? "config.unknownWithSuggestion" : "config.unknown", {
+      field: "key",
+      value: key,
+      suggestion: suggestion || "",
+      choices: CONFIG_KEYS.join(", "),
+    }),
+  }));
+  process.exitCode = 1;
+  return false;
+}
+
+// Principles command - what is installed and what is on
+const principlesCommand = program
+  .command("principles")
+  .description("🧩 List installed principles")
+  .option("-l, --language <lang>", "Language", { choices: LANGUAGES })
+  .action((options: any) => listPrinciples(options));
+
+principlesCommand
+  .command("list")
+  .description("Installed principles and which are on")
+  .action((options: any) => listPrinciples(options));
+
+function listPrinciples(options: any): void {
+  const settings = loadSettings(options);
+  const messages = new MessageCatalog(settings.values.language);
+  if (!checkSettings(settings, messages)) return;
+
+  for (const principle of getPrinciples()) {
+    const active = settings.values.principles.includes(principle.name);
+    const source = principle.source === "builtin" ? messages.t("cli.principles.builtin") : path.relative(process.cwd(), principle.source);
+    console.log(messages.t(active ? "cli.principles.on" : "cli.principles.off", { name: principle.name, source }));
+    if (principle.description) {
+      console.log(`    ${principle.description}`);
+    }
+
+    const parts = [
+      principle.triggers?.length && messages.t("cli.principles.triggers", { count: principle.triggers.length }),
+      principle.examples?.length && messages.t("cli.principles.examples", { count: principle.examples.length }),
+      principle.lintRules?.length && messages.t("cli.principles.lintRules", { count: principle.lintRules.length }),
+      principle.aliases && messages.t("cli.principles.aliases", { count: Object.keys(principle.aliases).length }),
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      console.log(`    ${parts.join(", ")}`);
+    }
+  }
+}
+
+// Completion command - shell completion generated from the commands above
+program
+  .command("completion")
+  .description("⌨️  Print a completion script for bash, zsh or fish")
+  .argument("<shell>", "Shell to complete in", COMPLETION_SHELLS)
+  .action((options: any, [shell]: string[]) => {
+    process.stdout.write(completionScript(shell, program.describe()));
   });
 
 program.parse();
@@ -0,0 +1,201 @@
+import { CommandInfo, CommandOption } from './simple-commander';
+
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'];
+
+// A command and the subcommand names that lead to it from the program
+interface CommandPath {
+  path: string[];
+  command: CommandInfo;
+}
+
+/**
+ * A completion script for the program's commands, options and option values.
+ * Options with choices complete to those choices; other valued options to file names.
+ */
+export function completionScript(shell: string, program: CommandInfo): string {
+  const paths = walk(program, []);
+
+  switch (shell) {
+    case 'bash':
+      return bashScript(program.name, paths);
+    case 'zsh':
+      return zshScript(program.name, paths);
+    case 'fish':
+      return fishScript(program.name, paths);
+    default:
+      throw new Error(`Unknown shell "${shell}": use ${COMPLETION_SHELLS.join(', ')}`);
+  }
+}
+
+function walk(command: CommandInfo, path: string[]): CommandPath[] {
+  return [{ path, command }, ...command.commands.flatMap(sub => walk(sub, [...path, sub.name]))];
+}
+
+function flagNames(option: CommandOption): string[] {
+  return [option.short, option.long].filter((flag): flag is string => !!flag);
+}
+
+// What the first positional argument completes to
+function argumentChoices(command: CommandInfo): readonly string[] {
+  return command.arguments[0]?.choices || [];
+}
+
+// Emoji and spacing that lead the help descriptions
+function plain(description: string): string {
+  return description.replace(/^[^\w("'`]+/, '').trim();
+}
+
+function bashScript(name: string, paths: CommandPath[]): string {
+  const fn = `_${name.replace(/\W/g, '_')}`;
+  const pathCase = paths.slice(1).map(({ path }) => `"${[''].concat(path).join(' ')}"`).join('|');
+
+  // Nothing offered falls back to file names (complete -o default)
+  const valueCases = paths.flatMap(({ path, command }) => command.options
+    .filter(option => option.value !== 'none')
+    .map(option => {
+      const patterns = flagNames(option).map(flag => `"${[''].concat(path).join(' ')}:${flag}"`).join('|');
+      const reply = option.choices
+        ? `COMPREPLY=($(compgen -W "${option.choices.join(' ')}" -- "$cur"))`
+        : 'COMPREPLY=()';
+      return `    ${patterns}) ${reply}; return ;;`;
+    }));
+
+  const wordCases = paths.map(({ path, command }) => {
+    const words = [...command.commands.map(sub => sub.name), ...argumentChoices(command)];
+    const flags = [...command.options.flatMap(flagNames), '--help', ...(path.length === 0 ? ['--version'] : [])];
+    return `    "${[''].concat(path).join(' ')}") words="${words.join(' ')}"; flags="${flags.join(' ')}" ;;`;
+  });
+
+  return [
+    `# ${name} completion for bash. Load it with:`,
+    `#   source <(${name} completion bash)`,
+    `${fn}() {`,
+    '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"',
+    '  local command_path="" words="" flags="" i',
+    '  # --flag=value is split at the "="',
+    '  if [[ "$prev" == "=" ]]; then prev="${COMP_WORDS[COMP_CWORD-2]}"; fi',
+    '  if [[ "$cur" == "=" ]]; then prev="${COMP_WORDS[COMP_CWORD-1]}"; cur=""; fi',
+    '',
+    '  for ((i = 1; i < COMP_CWORD; i++)); do',
+    '    case "${command_path} ${COMP_WORDS[i]}" in',
+    `      ${pathCase}) command_path="\${command_path} \${COMP_WORDS[i]}" ;;`,
+    '    esac',
+    '  done',
+    '',
+    '  case "${command_path}:${prev}" in',
+    ...valueCases,
+    '  esac',
+    '',
+    '  case "${command_path}" in',
+    ...wordCases,
+    '  esac',
+    '  if [[ "$cur" == -* ]]; then words="$flags"; fi',
+    '  COMPREPLY=($(compgen -W "$words" -- "$cur"))',
+    '}',
+    `complete -o default -F ${fn} ${name}`,
+    ''
+  ].join('\n');
+}
+
+function zshScript(name: string, paths: CommandPath[]): string {
+  const quote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
+  const entry = (word: string, description: string) => quote(`${word.replace(/:/g, '\\:')}:${plain(description).replace(/:/g, '\\:')}`);
+  const pathCase = paths.slice(1).map(({ path }) => `"${[''].concat(path).join(' ')}"`).join('|');
+
+  const valueCases = paths.flatMap(({ path, command }) => command.options
+    .filter(option => option.value !== 'none')
+    .map(option => {
+      const patterns = flagNames(option).map(flag => `"${[''].concat(path).join(' ')}:${flag}"`).join('|');
+      const reply = option.choices ? `compadd -- ${option.choices.join(' ')}` : '_files';
+      return `    ${patterns}) ${reply}; return ;;`;
+    }));
+
+  const wordCases = paths.map(({ path, command }) => {
+    const lines = [`    "${[''].concat(path).join(' ')}")`];
+    const options = [
+      ...command.options.flatMap(option => flagNames(option).map(flag => entry(flag, option.description))),
+      entry('--help', 'Show help'),
+      ...(path.length === 0 ? [entry('--version', 'Show version number')] : [])
+    ];
+    // `options` and `commands` are zsh's own parameters
+    lines.push(`      local -a flag_list=(${options.join(' ')})`);
+    lines.push(`      if [[ $PREFIX == -* ]]; then _describe 'option' flag_list; return; fi`);
+    if (command.commands.length > 0) {
+      const commands = command.commands.map(sub => entry(sub.name, sub.description));
+      lines.push(`      local -a command_list=(${commands.join(' ')})`);
+      lines.push(`      _describe 'command' command_list`);
+    } else if (argumentChoices(command).length > 0) {
+      lines.push(`      compadd -- ${argumentChoices(command).join(' ')}`);
+    } else {
+      lines.push('      _files');
+    }
+    lines.push('      ;;');
+    return lines.join('\n');
+  });
+
+  return [
+    `#compdef ${name}`,
+    `# ${name} completion for zsh. Load it with:`,
+    `#   source <(${name} completion zsh)`,
+    `_${name}() {`,
+    '  local command_path="" flag="${words[CURRENT-1]}" i',
+    '  # --flag=value completes the value',
+    '  if [[ ${words[CURRENT]} == -*=* ]]; then',
+    '    flag="${words[CURRENT]%%=*}"',
+    "    compset -P '*='",
+    '  fi',
+    '',
+    '  for ((i = 2; i < CURRENT; i++)); do',
+    '    case "${command_path} ${words[i]}" in',
+    `      ${pathCase}) command_path="\${command_path} \${words[i]}" ;;`,
+    '    esac',
+    '  done',
+    '',
+    '  case "${command_path}:${flag}" in',
+    ...valueCases,
+    '  esac',
+    '',
+    '  case "${command_path}" in',
+    ...wordCases,
+    '  esac',
+    '}',
+    `compdef _${name} ${name}`,
+    ''
+  ].join('\n');
+}
+
+function fishScript(name: string, paths: CommandPath[]): string {
+  const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  const lines = [
+    `# ${name} completion for fish. Load it with:`,
+    `#   ${name} completion fish | source`,
+    `complete -c ${name} -f`,
+    `complete -c ${name} -s h -l help -d 'Show help'`,
+    `complete -c ${name} -n __fish_use_subcommand -s v -l version -d 'Show version number'`
+  ];
+
+  for (const { path, command } of paths) {
+    // Exactly this command: its names were typed, none of its subcommands' were
+    const conditions = path.length === 0
+      ? ['__fish_use_subcommand']
+      : path.map(word => `__fish_seen_subcommand_from ${word}`);
+    if (path.length > 0 && command.commands.length > 0) {
+      conditions.push(`not __fish_seen_subcommand_from ${command.commands.map(sub => sub.name).join(' ')}`);
+    }
+    const condition = quote(conditions.join('; and '));
+
+    for (const sub of command.commands) {
+      lines.push(`complete -c ${name} -n ${condition} -a ${sub.name} -d ${quote(plain(sub.description))}`);
+    }
+    if (argumentChoices(command).length > 0) {
+      lines.push(`complete -c ${name} -n ${condition} -a ${quote(argumentChoices(command).join(' '))}`);
+    }
+    for (const option of command.options) {
+      const flags = [option.short && `-s ${option.short.slice(1)}`, option.long && `-l ${option.long.slice(2)}`].filter(Boolean).join(' ');
+      const value = option.value === 'none' ? '' : option.choices ? ` -x -a ${quote(option.choices.join(' '))}` : ' -r -F';
+      lines.push(`complete -c ${name} -n ${condition} ${flags}${value} -d ${quote(plain(option.description))}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,71 @@
+import { PromptGeneratorConfig, ProjectProfile, ValidationResult, COMPLEXITY_LEVELS } from './types';
+import { MessageCatalog, getAvailableLanguages } from './i18n';
+import { PlatformOptimizer } from './platform-optimizer';
+import { getTokenCounterNames } from './tokenizer';
+import { getPrincipleNames, getPrinciples, principleTemplate } from './principles';
+import { buildTemplateContext, renderTemplate } from './template-engine';
+import { closestMatch } from './suggestions';
+
+// Templates are checked against what a project could have, not what this one has
+const EMPTY_PROFILE: ProjectProfile = {
+  name: '',
+  languages: [],
+  frameworks: [],
+  testRunners: [],
+  linters: [],
+  buildTools: [],
+  manifests: []
+};
+
+/**
+ * Check a config against the platforms, complexity levels, languages,
+ * token counters and principles that exist, suggesting the closest name for typos.
+ * The templates of the chosen principles must only use known variables.
+ * Fields left out are not checked, so CLI commands can pass only the
+ * options they take.
+ */
+export function validateConfig(
+  config: Partial<PromptGeneratorConfig>,
+  messages: MessageCatalog = new MessageCatalog()
+): ValidationResult {
+  const errors: string[] = [];
+  const fields: [string, unknown, string[]][] = [
+    ['platform', config.platform, new PlatformOptimizer().getSupportedPlatforms()],
+    ['complexity', config.complexity, COMPLEXITY_LEVELS],
+    ['language', config.language, getAvailableLanguages()],
+    ['tokenizer', config.tokenizer, getTokenCounterNames()]
+  ];
+
+  const principles = getPrincipleNames();
+  for (const principle of config.principles || []) {
+    fields.push(['principle', principle, principles]);
+  }
+
+  for (const [field, value, choices] of fields) {
+    if (value === undefined || choices.includes(value as string)) continue;
+
+    const suggestion = typeof value === 'string' ? closestMatch(value, choices) : undefined;
+    errors.push(messages.t(suggestion ? 'config.unknownWithSuggestion' : 'config.unknown', {
+      field,
+      value: String(value),
+      suggestion: suggestion || '',
+      choices: choices.join(', ')
+    }));
+  }
+
+  if (config.customRules !== undefined &&
+      (!Array.isArray(config.customRules) || config.customRules.some(rule => typeof rule !== 'string'))) {
+    errors.push(messages.t('config.invalidRules'));
+  }
+
+  const context = buildTemplateContext(EMPTY_PROFILE, config);
+  const selected = getPrinciples().filter(principle => !config.principles || config.principles.includes(principle.name));
+  for (const principle of selected) {
+    for (const section of principleTemplate(principle, messages)?.sections || []) {
+      const result = renderTemplate(section.content, context, messages);
+      errors.push(...result.errors.map(error => messages.t('template.error', { section: section.name, error })));
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings: [] };
+}
@@ -0,0 +1,227 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { ComplexityLevel, PromptGeneratorConfig } from './types';
+import { ZEROCODE_DIR } from './project-rules';
+
+export interface ZerocodeConfig {
+  platform: PromptGeneratorConfig['platform'];
+  complexity: ComplexityLevel;
+  language: string;
+  tokenizer: string;
+  principles: string[]; // Templates that go into the prompt
+  rules: string[];
+  plugins: string[]; // Principle plugins: package names or paths relative to the project
+  model: string; // Model for the Ollama Modelfile and `run`
+  endpoint: string; // OpenAI-compatible API used by `run`
+}
+
+export type ConfigKey = keyof ZerocodeConfig;
+
+// Later layers win, except for lists every layer adds to
+export type ConfigSource = 'default' | 'global' | 'project' | 'env' | 'flag';
+
+export interface ConfigOrigin {
+  source: ConfigSource;
+  location?: string; // Config file or environment variable
+}
+
+export interface ResolvedConfig {
+  values: ZerocodeConfig;
+  origins: Record<ConfigKey, ConfigOrigin[]>;
+  projectDir?: string; // Nearest directory with .zerocode/config.json
+  warnings: string[];
+}
+
+export const DEFAULT_CONFIG: ZerocodeConfig = {
+  platform: 'universal',
+  complexity: 'basic',
+  language: 'english',
+  tokenizer: 'estimate',
+  principles: ['hickey', 'linus', 'zeus'],
+  rules: [],
+  plugins: [],
+  model: 'llama3',
+  endpoint: 'http://localhost:11434/v1'
+};
+
+export const CONFIG_KEYS = Object.keys(DEFAULT_CONFIG) as ConfigKey[];
+
+const LIST_KEYS: ConfigKey[] = ['principles', 'rules', 'plugins'];
+
+// A rule is a sentence and may well contain commas, so rules given as text go one per line
+const LINE_LIST_KEYS: ConfigKey[] = ['rules'];
+
+// Lists that add up across layers instead of replacing each other
+const MERGED_KEYS: ConfigKey[] = ['rules', 'plugins'];
+
+/**
+ * ~/.config/zerocode/config.json, or under $XDG_CONFIG_HOME when set
+ */
+export function globalConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  return join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'zerocode', 'config.json');
+}
+
+/**
+ * The nearest .zerocode/config.json in this directory or above it
+ */
+export function findProjectConfig(startDir: string = process.cwd()): string | undefined {
+  return findUpwards(join(ZEROCODE_DIR, 'config.json'), startDir);
+}
+
+/**
+ * The nearest file at relativePath in this directory or above it
+ */
+export function findUpwards(relativePath: string, startDir: string = process.cwd()): string | undefined {
+  let dir = startDir;
+  while (true) {
+    const candidate = join(dir, relativePath);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Merge the defaults, the global config, the project config, ZEROCODE_*
+ * environment variables and CLI flags, remembering where each value came from
+ */
+export function resolveConfig(
+  flags: Partial<ZerocodeConfig> = {},
+  cwd: string = process.cwd(),
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedConfig {
+  const values: Record<ConfigKey, unknown> = { ...DEFAULT_CONFIG };
+  const origins = Object.fromEntries(CONFIG_KEYS.map(key => [key, [{ source: 'default' }]])) as Record<ConfigKey, ConfigOrigin[]>;
+  const warnings: string[] = [];
+
+  const apply = (layer: Partial<Record<ConfigKey, unknown>>, origin: (key: ConfigKey) => ConfigOrigin) => {
+    for (const key of CONFIG_KEYS) {
+      const value = layer[key];
+      const merged = MERGED_KEYS.includes(key);
+      if (value === undefined || (merged && Array.isArray(value) && value.length === 0)) continue;
+
+      if (merged && origins[key][0].source !== 'default') {
+        values[key] = [...stringList(values[key]), ...stringList(value)];
+        origins[key].push(origin(key));
+      } else {
+        values[key] = value;
+        origins[key] = [origin(key)];
+      }
+    }
+  };
+
+  const globalPath = globalConfigPath(env);
+  apply(readConfigFile(globalPath, warnings), () => ({ source: 'global', location: globalPath }));
+
+  const projectPath = findProjectConfig(cwd);
+  if (projectPath) {
+    apply(readConfigFile(projectPath, warnings), () => ({ source: 'project', location: projectPath }));
+  }
+
+  const fromEnv: Partial<Record<ConfigKey, unknown>> = {};
+  for (const key of CONFIG_KEYS) {
+    const raw = env[envName(key)];
+    if (raw !== undefined && raw !== '') {
+      fromEnv[key] = parseConfigValue(key, raw);
+    }
+  }
+  apply(fromEnv, key => ({ source: 'env', location: envName(key) }));
+
+  apply(flags, () => ({ source: 'flag' }));
+
+  return {
+    values: values as ZerocodeConfig,
+    origins,
+    projectDir: projectPath ? dirname(dirname(projectPath)) : undefined,
+    warnings
+  };
+}
+
+/**
+ * Turn text from the command line or the environment into a config value.
+ * Lists are comma-separated, except rules, which go one per line.
+ */
+export function parseConfigValue(key: ConfigKey, raw: string): string | string[] {
+  if (LIST_KEYS.includes(key)) {
+    const separator = LINE_LIST_KEYS.includes(key) ? /\r?\n/ : ',';
+    return raw.split(separator).map(item => item.trim()).filter(item => item.length > 0);
+  }
+  return raw.trim();
+}
+
+/**
+ * Write one value into the global or the nearest project config, keeping
+ * the other fields. Returns the file written.
+ */
+export function setConfigValue(
+  key: ConfigKey,
+  value: unknown,
+  scope: 'global' | 'project',
+  cwd: string = process.cwd(),
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  const path = scope === 'global'
+    ? globalConfigPath(env)
+    : findProjectConfig(cwd) || join(cwd, ZEROCODE_DIR, 'config.json');
+
+  const existing = existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : {};
+  if (!existsSync(dirname(path))) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify({ ...existing, [key]: value }, null, 2));
+  return path;
+}
+
+export function envName(key: ConfigKey): string {
+  return `ZEROCODE_${key.toUpperCase()}`;
+}
+
+/**
+ * The settings one config file holds, without the layers around it
+ */
+export function readConfigFile(path: string, warnings: string[] = []): Partial<Record<ConfigKey, unknown>> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    // Skip the file and keep the other layers
+    warnings.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    warnings.push(`${path}: expected a JSON object`);
+    return {};
+  }
+  const fields = data as Partial<Record<ConfigKey, unknown>>;
+
+  const layer: Partial<Record<ConfigKey, unknown>> = {};
+  for (const key of CONFIG_KEYS) {
+    const value = fields[key];
+    if (value === undefined) continue;
+
+    if (LIST_KEYS.includes(key) && typeof value === 'string') {
+      layer[key] = parseConfigValue(key, value);
+    } else if (LIST_KEYS.includes(key) && !(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+      warnings.push(`${path}: "${key}" must be a list of strings`);
+    } else {
+      layer[key] = value;
+    }
+  }
+  return layer;
+}
+
+// The strings of a list value; a layer's lists were checked when it was read
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
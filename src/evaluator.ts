@@ -0,0 +1,323 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { MessageCatalog, DEFAULT_LANGUAGE } from './i18n';
+import { LintFinding, LintSource } from './linter';
+import { principleLintRules } from './principles';
+import { checkResponse, parseZeusSections } from './response-checker';
+import { FileDiff } from './review';
+import { ZEROCODE_DIR } from './project-rules';
+import { isFenceLine, nextFence } from './markdown-tree';
+import { closestMatch } from './suggestions';
+
+export type CriterionName = 'structure' | 'lint' | 'functionSize' | 'abstractions' | 'validation';
+
+export interface Rubric {
+  threshold: number; // Minimum total score (0-100) to pass
+  structure: { weight: number };
+  lint: { weight: number; penalty: number }; // Score lost per finding
+  functionSize: { weight: number; maxLines: number };
+  abstractions: { weight: number; max: number; penalty: number }; // Score lost per class/interface over max
+  validation: { weight: number };
+}
+
+export interface CriterionScore {
+  name: CriterionName;
+  score: number; // 0-100
+  weight: number;
+  applicable: boolean; // False when the input has nothing to judge, e.g. no code
+  feedback?: string; // What to fix, when the criterion is not at full marks
+}
+
+export interface Evaluation {
+  score: number; // Weighted 0-100 over applicable criteria
+  threshold: number;
+  passed: boolean;
+  criteria: CriterionScore[];
+  feedback: string; // Ready to send back to the AI
+}
+
+// Athena loops until quality reaches 90%
+export const DEFAULT_RUBRIC: Rubric = {
+  threshold: 90,
+  structure: { weight: 30 },
+  lint: { weight: 25, penalty: 0.25 },
+  functionSize: { weight: 15, maxLines: 50 },
+  abstractions: { weight: 10, max: 3, penalty: 0.25 },
+  validation: { weight: 20 }
+};
+
+const CODE_LANGUAGES: Record<string, string> = {
+  '': '.ts',
+  'ts': '.ts',
+  'typescript': '.ts',
+  'tsx': '.tsx',
+  'js': '.js',
+  'javascript': '.js',
+  'node': '.js',
+  'jsx': '.jsx'
+};
+
+const CODE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+const TEST_FILE = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.[^/]+$|(^|\/)test_[^/]+\.py$|_test\.(go|py)$/;
+
+// Concrete validation mentions a command, a test or an observable check
+const CONCRETE_VALIDATION = /`[^`]+`|\b(test|tests|assert|expect|run|curl|verify|check)\b/i;
+
+/**
+ * The default rubric with overrides from .zerocode/rubric.json, or from a given file.
+ * Throws listing every field that is unknown or out of range.
+ */
+export function loadRubric(
+  projectDir: string = process.cwd(),
+  rubricFile?: string,
+  messages: MessageCatalog = new MessageCatalog()
+): Rubric {
+  const path = rubricFile || join(projectDir, ZEROCODE_DIR, 'rubric.json');
+  if (!existsSync(path)) {
+    return DEFAULT_RUBRIC;
+  }
+
+  const { rubric, errors } = readRubric(JSON.parse(readFileSync(path, 'utf-8')), basename(path), messages);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return rubric;
+}
+
+/**
+ * Score an AI reply: its Zeus structure, the code it proposes and how it validates.
+ * Code is linted like `zerocode lint` does for the given principles, with their plugin rules.
+ */
+export function evaluateResponse(
+  markdown: string,
+  rubric: Rubric = DEFAULT_RUBRIC,
+  language: string = DEFAULT_LANGUAGE,
+  principles?: string[]
+): Evaluation {
+  const messages = new MessageCatalog(language);
+  const structure = checkResponse(markdown, language);
+  const validation = parseZeusSections(markdown).filter(section => section.key === 'validation');
+  const validationText = validation.flatMap(section => section.content).join('\n').trim();
+
+  const structureScore: CriterionScore = {
+    name: 'structure',
+    score: Math.max(0, 100 - structure.errors.length * 25),
+    weight: rubric.structure.weight,
+    applicable: true,
+    feedback: structure.errors.length > 0
+      ? messages.t('evaluate.feedback.structure', { problems: structure.errors.join('; ') })
+      : undefined
+  };
+
+  const validationScore = validationText === ''
+    ? 0
+    : CONCRETE_VALIDATION.test(validationText) ? 100 : 50;
+
+  return score([
+    structureScore,
+    ...scoreCode(codeFromMarkdown(markdown), rubric, messages, principles),
+    {
+      name: 'validation',
+      score: validationScore,
+      weight: rubric.validation.weight,
+      applicable: true,
+      feedback: validationScore < 100 ? messages.t('evaluate.feedback.validation') : undefined
+    }
+  ], rubric, messages);
+}
+
+/**
+ * Score a code change: the new code in each hunk, and whether tests changed with it
+ */
+export function evaluateDiff(
+  files: FileDiff[],
+  rubric: Rubric = DEFAULT_RUBRIC,
+  language: string = DEFAULT_LANGUAGE,
+  principles?: string[]
+): Evaluation {
+  const messages = new MessageCatalog(language);
+  const touchesTests = files.some(file => TEST_FILE.test(file.path));
+
+  const sources = files
+    .filter(file => CODE_EXTENSIONS.includes(extname(file.path)) && file.status !== 'deleted')
+    .map(file => ({
+      file: file.path,
+      // The new side of each hunk: context and added lines
+      text: file.hunks.map(hunk => hunk.lines.filter(line => !line.startsWith('-') && !line.startsWith('\\'))
+        .map(line => line.slice(1)).join('\n')).join('\n\n')
+    }));
+
+  return score([
+    { name: 'structure', score: 100, weight: rubric.structure.weight, applicable: false },
+    ...scoreCode(sources, rubric, messages, principles),
+    {
+      name: 'validation',
+      score: touchesTests ? 100 : 0,
+      weight: rubric.validation.weight,
+      applicable: true,
+      feedback: touchesTests ? undefined : messages.t('evaluate.feedback.tests')
+    }
+  ], rubric, messages);
+}
+
+function scoreCode(sources: LintSource[], rubric: Rubric, messages: MessageCatalog, principles?: string[]): CriterionScore[] {
+  const applicable = sources.length > 0;
+  // Loaded here, so commands that never score code skip the TypeScript compiler
+  const { CodeLinter, measureSource }: typeof import('./linter') = require('./linter');
+  // Function size has its own criterion, so the lint one leaves it out
+  const linter = new CodeLinter(messages, process.cwd(), principleLintRules(principles || []), principles);
+  const findings = linter.lintSources(sources).filter(finding => finding.rule !== 'huge-function');
+  const metrics = sources.map(measureSource);
+  const functions = metrics.flatMap(metric => metric.functions);
+  const largest = functions.reduce((max, fn) => (fn.lines > max.lines ? fn : max), { name: '', line: 0, lines: 0 });
+  const abstractions = metrics.reduce((sum, metric) => sum + metric.abstractions, 0);
+
+  const lintScore = Math.max(0, 1 - findings.length * rubric.lint.penalty);
+  const sizeScore = largest.lines <= rubric.functionSize.maxLines
+    ? 1
+    : Math.max(0, 1 - (largest.lines - rubric.functionSize.maxLines) / rubric.functionSize.maxLines);
+  const abstractionScore = Math.max(0, 1 - Math.max(0, abstractions - rubric.abstractions.max) * rubric.abstractions.penalty);
+
+  return [
+    {
+      name: 'lint',
+      score: Math.round(lintScore * 100),
+      weight: rubric.lint.weight,
+      applicable,
+      feedback: findings.length > 0 ? messages.t('evaluate.feedback.lint', { findings: describeFindings(findings) }) : undefined
+    },
+    {
+      name: 'functionSize',
+      score: Math.round(sizeScore * 100),
+      weight: rubric.functionSize.weight,
+      applicable,
+      feedback: sizeScore < 1
+        ? messages.t('evaluate.feedback.functionSize', { name: largest.name, lines: largest.lines, max: rubric.functionSize.maxLines })
+        : undefined
+    },
+    {
+      name: 'abstractions',
+      score: Math.round(abstractionScore * 100),
+      weight: rubric.abstractions.weight,
+      applicable,
+      feedback: abstractionScore < 1
+        ? messages.t('evaluate.feedback.abstractions', { count: abstractions, max: rubric.abstractions.max })
+        : undefined
+    }
+  ];
+}
+
+function score(criteria: CriterionScore[], rubric: Rubric, messages: MessageCatalog): Evaluation {
+  const counted = criteria.filter(criterion => criterion.applicable && criterion.weight > 0);
+  const totalWeight = counted.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const total = totalWeight === 0
+    ? 0
+    : Math.round(counted.reduce((sum, criterion) => sum + criterion.score * criterion.weight, 0) / totalWeight);
+  const passed = total >= rubric.threshold;
+
+  const fixes = counted.filter(criterion => criterion.feedback).map(criterion => `- ${criterion.feedback}`);
+  const feedback = passed && fixes.length === 0
+    ? messages.t('evaluate.feedback.passed', { score: total, threshold: rubric.threshold })
+    : [messages.t('evaluate.feedback.header', { score: total, threshold: rubric.threshold }), '', ...fixes].join('\n');
+
+  return { score: total, threshold: rubric.threshold, passed, criteria, feedback };
+}
+
+/**
+ * JS/TS code blocks in a reply, one source per block
+ */
+function codeFromMarkdown(markdown: string): LintSource[] {
+  const sources: LintSource[] = [];
+  let fence: string | null = null;
+  let block: string[] = [];
+  let extension: string | undefined;
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const wasOpen = fence !== null;
+    fence = nextFence(fence, line);
+
+    if (!wasOpen && fence !== null && isFenceLine(line)) {
+      const language = line.trim().replace(/^(`{3,}|~{3,})/, '').trim().split(/\s/)[0].toLowerCase();
+      extension = CODE_LANGUAGES[language];
+      block = [];
+    } else if (wasOpen && fence === null) {
+      if (extension) sources.push({ file: `response-${sources.length + 1}${extension}`, text: block.join('\n') });
+    } else if (wasOpen) {
+      block.push(line);
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * A typed rubric from parsed rubric.json overrides, checked field by field.
+ * Bad fields keep their default and are reported.
+ */
+function readRubric(overrides: unknown, file: string, messages: MessageCatalog): { rubric: Rubric; errors: string[] } {
+  const errors: string[] = [];
+  if (!isObject(overrides)) {
+    return { rubric: DEFAULT_RUBRIC, errors: [messages.t('rubric.notObject', { field: file, value: JSON.stringify(overrides) })] };
+  }
+
+  const criteria = (Object.keys(DEFAULT_RUBRIC) as (keyof Rubric)[]).filter(name => name !== 'threshold') as CriterionName[];
+  errors.push(...unknownFields(overrides, ['threshold', ...criteria], 'rubric field', messages));
+
+  const settings = Object.fromEntries(criteria.map(name => {
+    const value = overrides[name];
+    if (value === undefined) return [name, {}];
+    if (!isObject(value)) {
+      errors.push(messages.t('rubric.notObject', { field: name, value: JSON.stringify(value) }));
+      return [name, {}];
+    }
+    errors.push(...unknownFields(value, Object.keys(DEFAULT_RUBRIC[name]), `${name} setting`, messages));
+    return [name, value];
+  })) as Record<CriterionName, Record<string, unknown>>;
+
+  // One number from the overrides, or its default when left out or invalid
+  const number = (field: string, value: unknown, fallback: number, min: number, max?: number): number => {
+    if (value === undefined) return fallback;
+    if (typeof value === 'number' && Number.isFinite(value) && value >= min && (max === undefined || value <= max)) {
+      return value;
+    }
+    errors.push(messages.t(max === undefined ? 'rubric.belowMin' : 'rubric.outOfRange', { field, value: JSON.stringify(value), min, max: max ?? '' }));
+    return fallback;
+  };
+  const setting = <C extends CriterionName, K extends keyof Rubric[C] & string>(name: C, key: K, min: number): number =>
+    number(`${name}.${key}`, settings[name][key], DEFAULT_RUBRIC[name][key] as number, min);
+
+  const rubric: Rubric = {
+    threshold: number('threshold', overrides.threshold, DEFAULT_RUBRIC.threshold, 0, 100),
+    structure: { weight: setting('structure', 'weight', 0) },
+    lint: { weight: setting('lint', 'weight', 0), penalty: setting('lint', 'penalty', 0) },
+    functionSize: { weight: setting('functionSize', 'weight', 0), maxLines: setting('functionSize', 'maxLines', 1) },
+    abstractions: {
+      weight: setting('abstractions', 'weight', 0),
+      max: setting('abstractions', 'max', 0),
+      penalty: setting('abstractions', 'penalty', 0)
+    },
+    validation: { weight: setting('validation', 'weight', 0) }
+  };
+  return { rubric, errors };
+}
+
+function unknownFields(value: Record<string, unknown>, known: string[], field: string, messages: MessageCatalog): string[] {
+  return Object.keys(value).filter(key => !known.includes(key)).map(key => {
+    const suggestion = closestMatch(key, known);
+    return messages.t(suggestion ? 'config.unknownWithSuggestion' : 'config.unknown', {
+      field,
+      value: key,
+      suggestion: suggestion || '',
+      choices: known.join(', ')
+    });
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeFindings(findings: LintFinding[]): string {
+  return findings.map(finding => finding.message).join('; ');
+}
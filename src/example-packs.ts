@@ -0,0 +1,96 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { ProjectProfile } from './types';
+import { MessageCatalog } from './i18n';
+import { ZEROCODE_DIR } from './project-rules';
+
+export interface ExamplePack {
+  readonly name: string;
+  // Profile languages/frameworks that select this pack; empty means always
+  readonly matches: string[];
+  readonly content: string;
+  readonly weight: number;
+  readonly principle?: string; // Set for packs from principle plugins
+}
+
+// Built-in packs live in the locale catalogs as `examples.<name>`
+const BUILTIN_PACKS: { name: string; matches: string[]; weight: number }[] = [
+  { name: 'react', matches: ['react', 'next'], weight: 75 },
+  { name: 'vue', matches: ['vue', 'nuxt'], weight: 75 },
+  { name: 'angular', matches: ['angular'], weight: 75 },
+  { name: 'svelte', matches: ['svelte', 'sveltekit'], weight: 75 },
+  { name: 'node', matches: ['express', 'fastify', 'koa', 'nestjs'], weight: 75 },
+  { name: 'django', matches: ['django'], weight: 75 },
+  { name: 'fastapi', matches: ['fastapi'], weight: 75 },
+  { name: 'python', matches: ['python'], weight: 70 },
+  { name: 'go', matches: ['go'], weight: 70 },
+  { name: 'rust', matches: ['rust'], weight: 70 },
+  { name: 'sql', matches: ['sql'], weight: 65 }
+];
+
+// Used when nothing in the profile matches, as before packs existed
+const FALLBACK_PACK = 'node';
+
+// A project's own examples outrank the built-in ones
+const PROJECT_PACK_WEIGHT = 80;
+
+export class ExampleRegistry {
+  private packs: Map<string, ExamplePack> = new Map();
+
+  constructor(messages: MessageCatalog) {
+    for (const pack of BUILTIN_PACKS) {
+      this.register({ ...pack, content: messages.t(`examples.${pack.name}`) });
+    }
+  }
+
+  /**
+   * Add a pack; a pack with the same name replaces the earlier one
+   */
+  public register(pack: ExamplePack): void {
+    this.packs.set(pack.name, pack);
+  }
+
+  /**
+   * Register every .zerocode/examples/*.md file. An optional first line
+   * `<!-- match: vue, nuxt -->` limits the pack to matching projects.
+   */
+  public loadProjectPacks(projectDir: string = process.cwd()): void {
+    const examplesDir = join(projectDir, ZEROCODE_DIR, 'examples');
+    if (!existsSync(examplesDir)) {
+      return;
+    }
+
+    for (const file of readdirSync(examplesDir).filter(f => f.endsWith('.md')).sort()) {
+      const text = readFileSync(join(examplesDir, file), 'utf-8');
+      const annotation = text.match(/^<!--\s*match:\s*(.*?)\s*-->\n?/);
+
+      this.register({
+        name: basename(file, '.md'),
+        matches: annotation ? annotation[1].split(',').map(m => m.trim()).filter(Boolean) : [],
+        content: (annotation ? text.slice(annotation[0].length) : text).trim(),
+        weight: PROJECT_PACK_WEIGHT
+      });
+    }
+  }
+
+  /**
+   * Packs that fit the detected stack, leaving out those of principles that are off
+   */
+  public forProfile(profile: ProjectProfile, principles?: string[]): ExamplePack[] {
+    const stack = [...profile.languages, ...profile.frameworks];
+    const selected = Array.from(this.packs.values()).filter(pack =>
+      (pack.matches.length === 0 || pack.matches.some(match => stack.includes(match))) &&
+      (!pack.principle || !principles || principles.includes(pack.principle))
+    );
+
+    // Principle examples teach the principle, not the stack
+    if (selected.every(pack => pack.principle) && this.packs.has(FALLBACK_PACK)) {
+      return [this.packs.get(FALLBACK_PACK)!, ...selected];
+    }
+    return selected;
+  }
+
+  public getPackNames(): string[] {
+    return Array.from(this.packs.keys());
+  }
+}
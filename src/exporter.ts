@@ -0,0 +1,241 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmdirSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { GeneratedPrompt, PromptGeneratorConfig, Provenance } from './types';
+import { generatePrompt } from './generator';
+import { hasBlock, removeBlock, upsertBlock, wrapBlock } from './managed-block';
+import { provenanceLines, stampPrompt } from './provenance';
+import { ZEROCODE_DIR } from './project-rules';
+
+export interface ExportTarget {
+  readonly platform: PromptGeneratorConfig['platform'];
+  readonly path: string;
+  readonly marker: string; // File or directory that shows the tool is used here
+  // Managed files may hold the team's own text; ZeroCode only touches its marked block
+  readonly managed: boolean;
+  render(body: string, options: ExportOptions, provenance: Provenance): string;
+}
+
+export interface ExportOptions {
+  model?: string;
+}
+
+export interface ExportResult {
+  path: string;
+  status: 'created' | 'updated' | 'skipped';
+  provenance?: Provenance; // Of the prompt written; unset when skipped
+}
+
+export interface RemovalResult {
+  path: string;
+  status: 'block-removed' | 'deleted';
+}
+
+// Base model for the Ollama Modelfile when none is given
+export const DEFAULT_OLLAMA_MODEL = 'llama3';
+
+// First line of a Modelfile we wrote, so we never overwrite or delete someone else's
+const MODELFILE_HEADER = '# Generated by ZeroCode';
+
+const FRONTMATTER_PATTERN = /^---\n[\s\S]*?\n---\n?/;
+
+/**
+ * Where each AI tool reads its project instructions from
+ */
+export const EXPORT_TARGETS: Record<string, ExportTarget> = {
+  cursor: {
+    platform: 'cursor',
+    path: join('.cursor', 'rules', 'zerocode.mdc'),
+    marker: '.cursor',
+    managed: true,
+    render: body => [
+      '---',
+      'description: ZeroCode rules - Hickey/Linus/Zeus principles',
+      'globs:',
+      'alwaysApply: true',
+      '---',
+      '',
+      body,
+      ''
+    ].join('\n')
+  },
+  claude: {
+    platform: 'claude',
+    path: 'CLAUDE.md',
+    marker: 'CLAUDE.md',
+    managed: true,
+    render: body => `${body}\n`
+  },
+  copilot: {
+    platform: 'copilot',
+    path: join('.github', 'copilot-instructions.md'),
+    marker: join('.github', 'copilot-instructions.md'),
+    managed: true,
+    render: body => `${body}\n`
+  },
+  ollama: {
+    platform: 'ollama',
+    path: 'Modelfile',
+    marker: 'Modelfile',
+    managed: false,
+    // Triple quotes would end the SYSTEM block early
+    render: (body, options, provenance) => [
+      MODELFILE_HEADER,
+      ...provenanceLines(provenance).map(line => `# ${line}`),
+      `FROM ${options.model || DEFAULT_OLLAMA_MODEL}`,
+      '',
+      'SYSTEM """',
+      body.replace(/"""/g, "'''"),
+      '"""',
+      ''
+    ].join('\n')
+  }
+};
+
+/**
+ * Targets whose AI tool the project already uses
+ */
+export function detectTargets(projectDir: string = process.cwd()): string[] {
+  return Object.keys(EXPORT_TARGETS).filter(name => existsSync(join(projectDir, EXPORT_TARGETS[name].marker)));
+}
+
+/**
+ * Generate the prompt for a target's platform and write it where the tool expects it.
+ * Existing managed files only get their ZeroCode block replaced.
+ */
+export function exportPrompt(
+  targetName: string,
+  config: Omit<PromptGeneratorConfig, 'platform'>,
+  projectDir: string = process.cwd(),
+  options: ExportOptions = {}
+): ExportResult {
+  return writeExport(targetName, generatePrompt({ ...config, platform: exportTarget(targetName).platform, projectDir }), projectDir, options);
+}
+
+/**
+ * Write an already generated prompt where the target's tool expects it
+ */
+export function writeExport(
+  targetName: string,
+  prompt: GeneratedPrompt,
+  projectDir: string = process.cwd(),
+  options: ExportOptions = {}
+): ExportResult {
+  const content = renderTarget(targetName, prompt, projectDir, options);
+  const filePath = join(projectDir, EXPORT_TARGETS[targetName].path);
+  const existed = existsSync(filePath);
+
+  if (content === undefined) {
+    return { path: filePath, status: 'skipped' };
+  }
+
+  if (!existsSync(dirname(filePath))) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+  writeFileSync(filePath, content);
+
+  return { path: filePath, status: existed ? 'updated' : 'created', provenance: prompt.provenance };
+}
+
+/**
+ * The text exporting a target would leave in its file, or undefined when
+ * the file there is someone else's and would be skipped
+ */
+export function renderExport(
+  targetName: string,
+  config: Omit<PromptGeneratorConfig, 'platform'>,
+  projectDir: string = process.cwd(),
+  options: ExportOptions = {}
+): string | undefined {
+  return renderTarget(targetName, generatePrompt({ ...config, platform: exportTarget(targetName).platform, projectDir }), projectDir, options);
+}
+
+/**
+ * Targets whose file holds ZeroCode's output from an earlier export
+ */
+export function exportedTargets(projectDir: string = process.cwd()): string[] {
+  return Object.keys(EXPORT_TARGETS).filter(name => {
+    const target = EXPORT_TARGETS[name];
+    const filePath = join(projectDir, target.path);
+    if (!existsSync(filePath)) return false;
+
+    const text = readFileSync(filePath, 'utf-8');
+    return target.managed ? hasBlock(text) : text.startsWith(MODELFILE_HEADER);
+  });
+}
+
+/**
+ * Undo every export and delete .zerocode/. Team-written text in managed
+ * files stays; files left with nothing but ZeroCode content are deleted.
+ */
+export function removeExports(projectDir: string = process.cwd()): RemovalResult[] {
+  const results: RemovalResult[] = [];
+
+  for (const target of Object.values(EXPORT_TARGETS)) {
+    const filePath = join(projectDir, target.path);
+    if (!existsSync(filePath)) continue;
+
+    const text = readFileSync(filePath, 'utf-8');
+
+    if (!target.managed) {
+      if (text.startsWith(MODELFILE_HEADER)) {
+        unlinkSync(filePath);
+        results.push({ path: filePath, status: 'deleted' });
+      }
+      continue;
+    }
+
+    if (!hasBlock(text)) continue;
+
+    const remaining = removeBlock(text);
+    if (remaining.replace(FRONTMATTER_PATTERN, '').trim().length === 0) {
+      unlinkSync(filePath);
+      removeEmptyParents(dirname(filePath), projectDir);
+      results.push({ path: filePath, status: 'deleted' });
+    } else {
+      writeFileSync(filePath, remaining);
+      results.push({ path: filePath, status: 'block-removed' });
+    }
+  }
+
+  const zerocodeDir = join(projectDir, ZEROCODE_DIR);
+  if (existsSync(zerocodeDir)) {
+    rmSync(zerocodeDir, { recursive: true, force: true });
+    results.push({ path: zerocodeDir, status: 'deleted' });
+  }
+
+  return results;
+}
+
+function exportTarget(targetName: string): ExportTarget {
+  const target = EXPORT_TARGETS[targetName];
+  if (!target) {
+    throw new Error(`Unknown export target: ${targetName}`);
+  }
+  return target;
+}
+
+function renderTarget(targetName: string, prompt: GeneratedPrompt, projectDir: string, options: ExportOptions): string | undefined {
+  const target = exportTarget(targetName);
+  const filePath = join(projectDir, target.path);
+  const existing = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null;
+
+  if (existing !== null && !target.managed && !existing.startsWith(MODELFILE_HEADER)) {
+    return undefined;
+  }
+
+  // Managed files carry the provenance inside their block, the Modelfile as comments
+  if (existing !== null && target.managed) {
+    return upsertBlock(existing, stampPrompt(prompt));
+  }
+
+  const body = target.managed ? wrapBlock(stampPrompt(prompt)) : prompt.systemPrompt;
+  return target.render(body, options, prompt.provenance);
+}
+
+function removeEmptyParents(dir: string, stopAt: string): void {
+  let current = dir;
+  while (current.startsWith(stopAt) && current !== stopAt && readdirSync(current).length === 0) {
+    rmdirSync(current);
+    current = dirname(current);
+  }
+}
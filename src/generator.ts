@@ -1,15 +1,35 @@
-import { readFileSync } from 'fs';
-import { join } from 'path';
-import { PromptGeneratorConfig, GeneratedPrompt, TemplateSection } from './types';
-import { PlatformOptimizer, OptimizationResult } from './platform-optimizer';
+import { PromptGeneratorConfig, GeneratedPrompt, TemplateSection, PromptTemplate, ProjectProfile, SectionTokenCount, COMPLEXITY_LEVELS, tierRank } from './types';
+import { PlatformOptimizer } from './platform-optimizer';
+import { MessageCatalog, DEFAULT_LANGUAGE } from './i18n';
+import { analyzeProject } from './project-analyzer';
+import { ExampleRegistry } from './example-packs';
+import { TokenCounter, getTokenCounter } from './tokenizer';
+import { validateConfig } from './config-validator';
+import { getPrinciples, principleTemplate } from './principles';
+import { buildTemplateContext, renderTemplate } from './template-engine';
+import { contentHash } from './provenance';
+import { VERSION } from './version';
+
+// Below the project's own examples, level with the built-in framework packs
+const PRINCIPLE_EXAMPLE_WEIGHT = 75;
+
+interface AssembledPrompt {
+  prompt: string;
+  included: TemplateSection[];
+  warnings: string[];
+  sections: SectionTokenCount[];
+}
 
 export class AdaptivePromptGenerator {
   private corePrompt: string = '';
   private extendedPrompts: Map<string, string> = new Map();
-  private examples: Map<string, string> = new Map();
+  private examples!: ExampleRegistry;
+  private templates: PromptTemplate[] = [];
+  private messages: MessageCatalog;
   private platformOptimizer: PlatformOptimizer;
 
-  constructor() {
+  constructor(language: string = DEFAULT_LANGUAGE, private projectDir: string = process.cwd()) {
+    this.messages = new MessageCatalog(language);
     this.loadPrompts();
     this.platformOptimizer = new PlatformOptimizer();
   }
@@ -20,261 +40,231 @@ export class AdaptivePromptGenerator {
     
     // Load extended rules for different platforms
     this.loadExtendedPrompts();
+
+    // Load the Hickey/Linus/Zeus templates and those of principle plugins
+    this.templates = getPrinciples()
+      .map(principle => principleTemplate(principle, this.messages))
+      .filter((template): template is PromptTemplate => template !== undefined);
     
     // Load contextual examples
     this.loadExamples();
   }
 
   private getCorePrompt(): string {
-    return `# ZeroCode Framework - Core Rules
-
-## TRIGGER PATTERNS - When you see these, apply rules:
-
-### Code Architecture Decisions
-TRIGGERS: "how should I structure", "best practice", "design pattern"
-→ APPLY: Hickey Simple Rule - One concept per component
-
-### Problem Solving  
-TRIGGERS: "how to implement", "need to build", "want to create"
-→ APPLY: Linus Real Problem Rule - Is this actually needed?
-
-### Code Review
-TRIGGERS: "is this good", "review my code", "feedback on"
-→ APPLY: Zeus Structure - Analyze systematically
-
-## CONCRETE RULES WITH EXAMPLES
-
-### HICKEY RULE: Detect Complexity
-BAD PATTERN (avoid this):
-\`\`\`javascript
-class UserServiceManagerFactory {  // Multiple concepts
-  validateAndSaveAndEmail() {}     // Mixed responsibilities
-}
-\`\`\`
-
-GOOD PATTERN (do this):
-\`\`\`javascript
-validateUser(user)    // One concept
-saveUser(user)        // One concept
-emailUser(user)       // One concept
-\`\`\`
-
-### LINUS RULE: Real vs Imaginary
-IMAGINARY PROBLEMS (don't solve):
-- "What if we have 1 million users" (you have 10)
-- "This needs to be infinitely scalable" (it doesn't)
-- "We might need this flexibility" (you won't)
-
-REAL PROBLEMS (solve these):
-- "This takes 5 seconds to load" (measurable)
-- "Users can't reset passwords" (actual issue)
-- "Database queries fail randomly" (happening now)
-
-### ZEUS STRUCTURE: Every response must have:
-🎯 OBJECTIVE: What we're solving (one sentence)
-🔧 IMPLEMENTATION: Simple, working code
-⚠️ TRADEOFFS: What we're sacrificing for simplicity
-📈 VALIDATION: How to verify it works
-
-CRITICAL: Prefer boring solutions that work over clever solutions that might work.`;
+    return this.messages.t('core.prompt');
   }
 
   private loadExtendedPrompts(): void {
-    // Cursor-specific extended rules
-    this.extendedPrompts.set('cursor', `
-## Cursor-Specific Code Generation Rules
-
-When generating code in Cursor:
-1. Always provide complete, runnable files
-2. Include all imports at the top
-3. Use TypeScript when possible for better IntelliSense
-4. Add clear comments for complex logic
-
-Example of Cursor-optimized response:
-\`\`\`typescript
-// Complete file: userService.ts
-import { db } from './database';
-import { User } from './types';
-
-// Simple function - one responsibility
-export async function getUser(id: string): Promise<User | null> {
-  const result = await db.query('SELECT * FROM users WHERE id = $1', [id]);
-  return result.rows[0] || null;
-}
-\`\`\`
-`);
-
-    // Claude-specific extended rules
-    this.extendedPrompts.set('claude', `
-## Claude-Specific Interaction Rules
-
-When working with Claude:
-1. Break complex tasks into clear steps
-2. Ask for clarification before making assumptions
-3. Provide reasoning before code
-4. Use markdown for better readability
-
-Claude Response Pattern:
-1. Understand the problem
-2. Propose simple solution
-3. Implement with clear code
-4. Explain tradeoffs
-`);
-
-    // Copilot-specific extended rules
-    this.extendedPrompts.set('copilot', `
-## GitHub Copilot Optimization Rules
-
-For better Copilot suggestions:
-1. Write descriptive function names
-2. Add clear comments before functions
-3. Use consistent naming patterns
-4. Start with test cases when possible
-
-Example:
-\`\`\`javascript
-// Get user by email address from database
-// Returns null if user not found
-function getUserByEmail(email) {
-  // Copilot will complete this better with clear intent
-}
-\`\`\`
-`);
+    for (const platform of ['cursor', 'claude', 'copilot']) {
+      this.extendedPrompts.set(platform, this.messages.t(`extended.${platform}`));
+    }
   }
 
   private loadExamples(): void {
-    // React examples
-    this.examples.set('react', `
-## React-Specific Examples
-
-HICKEY PRINCIPLE in React:
-BAD: Component doing everything
-\`\`\`jsx
-function UserDashboard() {
-  // Fetching, validation, display, state - all mixed
-  const [user, setUser] = useState();
-  useEffect(() => { /* fetch */ }, []);
-  if (!user.email.includes('@')) { /* validation */ }
-  return <div>...</div>;
-}
-\`\`\`
-
-GOOD: Separated concerns
-\`\`\`jsx
-// Custom hook for data
-function useUser(id) { /* fetching logic */ }
-
-// Pure component for display
-function UserDisplay({ user }) { /* only display */ }
-
-// Composition
-function UserDashboard() {
-  const user = useUser(id);
-  return <UserDisplay user={user} />;
-}
-\`\`\`
-`);
-
-    // Node.js examples
-    this.examples.set('node', `
-## Node.js-Specific Examples
-
-LINUS PRINCIPLE in Node.js:
-BAD: Overengineered API
-\`\`\`javascript
-class AbstractRepositoryFactory {
-  createRepository(type) {
-    return new RepositoryBuilder()
-      .withType(type)
-      .withCache()
-      .withValidation()
-      .build();
+    this.examples = new ExampleRegistry(this.messages);
+    this.examples.loadProjectPacks(this.projectDir);
+
+    for (const principle of getPrinciples()) {
+      for (const example of principle.examples || []) {
+        this.examples.register({
+          name: `${principle.name}/${example.name}`,
+          matches: example.matches || [],
+          content: example.content,
+          weight: example.weight ?? PRINCIPLE_EXAMPLE_WEIGHT,
+          principle: principle.name
+        });
+      }
+    }
   }
-}
-\`\`\`
 
-GOOD: Simple and direct
-\`\`\`javascript
-const users = require('./users.json');
+  public generate(config: PromptGeneratorConfig): GeneratedPrompt {
+    // Unknown names would otherwise fall back to cursor rules and default limits
+    const validation = validateConfig(config, this.messages);
+    if (!validation.valid) {
+      throw new Error(validation.errors.join('\n'));
+    }
 
-function getUser(id) {
-  return users.find(u => u.id === id);
-}
-\`\`\`
-`);
-  }
+    const projectDir = config.projectDir || this.projectDir;
+    if (config.language !== this.messages.language || projectDir !== this.projectDir) {
+      this.messages = new MessageCatalog(config.language);
+      this.projectDir = projectDir;
+      this.loadPrompts();
+    }
 
-  public generate(config: PromptGeneratorConfig): GeneratedPrompt {
-    const optimization = this.assembleAdaptivePrompt(config);
+    const counter = getTokenCounter(config.tokenizer);
+    const assembled = this.assembleAdaptivePrompt(config, counter);
+    const optimization = this.platformOptimizer.optimize(assembled.prompt, config, assembled.included);
+    const sections = assembled.sections.map(section => ({
+      ...section,
+      included: section.included && !optimization.droppedSections.includes(section.name)
+    }));
     
     return {
       systemPrompt: optimization.optimizedPrompt,
-      instructions: "Apply ZeroCode principles to all code generation",
+      instructions: this.messages.t('generator.instructions'),
       examples: this.getExamplesList(),
-      platform: config.platform
+      platform: config.platform,
+      warnings: [...assembled.warnings, ...optimization.warnings],
+      appliedOptimizations: optimization.appliedOptimizations,
+      droppedSections: optimization.droppedSections,
+      tokens: {
+        counter: counter.name,
+        budget: this.platformOptimizer.getTokenBudget(config.platform),
+        total: counter.count(optimization.optimizedPrompt),
+        sections
+      },
+      provenance: {
+        version: VERSION,
+        platform: config.platform,
+        complexity: config.complexity,
+        language: config.language,
+        principles: this.activeTemplates(config).map(template => template.name),
+        sections: sections.filter(section => section.included).map(section => section.name),
+        hash: contentHash(optimization.optimizedPrompt)
+      }
     };
   }
   
   private getExamplesList(): string[] {
     return [
-      "Use simple functions over complex classes",
-      "Solve real problems, not imaginary ones",
-      "Provide working code with clear validation"
+      this.messages.t('generator.example.functions'),
+      this.messages.t('generator.example.realProblems'),
+      this.messages.t('generator.example.validation')
     ];
   }
 
-  private assembleAdaptivePrompt(config: PromptGeneratorConfig): OptimizationResult {
-    const platformLimit = this.platformOptimizer.getPlatformLimit(config.platform);
-    let finalPrompt = this.corePrompt;
-    let appliedOptimizations: string[] = ['core'];
-    let estimatedTokens = this.estimateTokens(this.corePrompt);
-    
-    // Add extended rules if space available
-    const extendedPrompt = this.extendedPrompts.get(config.platform) || 
-                          this.extendedPrompts.get('cursor') || '';
-    
-    if (extendedPrompt && estimatedTokens + this.estimateTokens(extendedPrompt) < platformLimit * 0.7) {
-      finalPrompt += '\n\n' + extendedPrompt;
-      appliedOptimizations.push('extended');
-      estimatedTokens += this.estimateTokens(extendedPrompt);
+  private assembleAdaptivePrompt(config: PromptGeneratorConfig, counter: TokenCounter): AssembledPrompt {
+    const tokenBudget = this.platformOptimizer.getTokenBudget(config.platform);
+    const sections: TemplateSection[] = [
+      { name: 'core', content: this.corePrompt, weight: 100, required: true }
+    ];
+
+    // Team rules always go out, whatever the budget
+    if (config.customRules && config.customRules.length > 0) {
+      sections.push({ name: 'project-rules', content: this.renderProjectRules(config.customRules), weight: 95, required: true });
     }
-    
-    // Add examples if space available
-    const projectType = this.detectProjectType();
-    const examples = this.examples.get(projectType) || '';
-    
-    if (examples && estimatedTokens + this.estimateTokens(examples) < platformLimit * 0.9) {
-      finalPrompt += '\n\n' + examples;
-      appliedOptimizations.push('examples');
-      estimatedTokens += this.estimateTokens(examples);
+
+    // Only cursor, claude and copilot have extended rules; the rest go without
+    const extendedPrompt = this.extendedPrompts.get(config.platform);
+    if (extendedPrompt) {
+      sections.push({ name: 'extended', content: extendedPrompt.trim(), weight: 85, required: false });
     }
-    
-    // Return optimization result with proper structure
+
+    // Higher complexity tiers unlock more of each template
+    const profile = analyzeProject(this.projectDir);
+    const maxTier = COMPLEXITY_LEVELS.indexOf(config.complexity);
+    for (const template of this.activeTemplates(config)) {
+      sections.push(...this.renderTemplateSections(
+        template.sections.filter(section => tierRank(section) <= maxTier),
+        profile,
+        config
+      ));
+    }
+
+    for (const pack of this.examples.forProfile(profile, config.principles)) {
+      sections.push({ name: `examples/${pack.name}`, content: pack.content, weight: pack.weight, required: false });
+    }
+
+    // Leave headroom for the platform optimizer's own additions
+    const costs = sections.map(section => counter.count(section.content));
+    const packed = this.packSections(sections, costs, tokenBudget * 0.9);
+    const warnings = packed.dropped.length > 0
+      ? [this.messages.t('generator.skippedSections', { count: packed.dropped.length, platform: config.platform })]
+      : [];
+
     return {
-      optimizedPrompt: finalPrompt,
-      warnings: [],
-      appliedOptimizations
+      prompt: this.renderSections(packed.included),
+      included: packed.included,
+      warnings,
+      sections: sections.map((section, index) => ({
+        name: section.name,
+        tokens: costs[index],
+        included: packed.included.includes(section)
+      }))
     };
   }
 
-  private estimateTokens(text: string): number {
-    // Rough estimation: 1 token ≈ 4 characters
-    return Math.ceil(text.length / 4);
+  private activeTemplates(config: PromptGeneratorConfig): PromptTemplate[] {
+    return this.templates.filter(template => !config.principles || config.principles.includes(template.name));
+  }
+
+  /**
+   * Fill in each section's {{variables}} for this project. Sections whose
+   * conditions leave nothing but the heading are dropped.
+   */
+  private renderTemplateSections(sections: TemplateSection[], profile: ProjectProfile, config: PromptGeneratorConfig): TemplateSection[] {
+    const context = buildTemplateContext(profile, config);
+    const rendered: TemplateSection[] = [];
+
+    for (const section of sections) {
+      const result = renderTemplate(section.content, context, this.messages);
+      if (result.errors.length > 0) {
+        throw new Error(result.errors.map(error => this.messages.t('template.error', { section: section.name, error })).join('\n'));
+      }
+
+      const content = result.text.trim();
+      if (content.split('\n').some((line, index) => index > 0 && line.trim() !== '')) {
+        rendered.push({ ...section, content });
+      }
+    }
+    return rendered;
+  }
+
+  /**
+   * One-line rules become a bullet list; multi-line rules (rule files)
+   * keep their own markdown and follow the list
+   */
+  private renderProjectRules(rules: string[]): string {
+    const bullets = rules.filter(rule => !rule.includes('\n')).map(rule => `- ${rule}`);
+    const blocks = rules.filter(rule => rule.includes('\n'));
+    const body = [bullets.join('\n'), ...blocks].filter(part => part.length > 0);
+
+    return [`## ${this.messages.t('generator.projectRules')}`, ...body].join('\n\n');
   }
 
-  private detectProjectType(): string {
-    // Simple project type detection based on package.json or file structure
-    try {
-      const packageJson = readFileSync(join(process.cwd(), 'package.json'), 'utf-8');
-      if (packageJson.includes('react')) return 'react';
-      if (packageJson.includes('vue')) return 'vue';
-      if (packageJson.includes('angular')) return 'angular';
-      if (packageJson.includes('express')) return 'node';
-      if (packageJson.includes('fastify')) return 'node';
-    } catch {
-      // If no package.json, default to node
+  /**
+   * Pick sections until the token budget is spent, then restore their
+   * original order so the prompt still reads top to bottom. Lower tiers go
+   * first, so a higher complexity only ever adds sections; weight decides
+   * within a tier.
+   */
+  private packSections(sections: TemplateSection[], costs: number[], budget: number): { included: TemplateSection[]; dropped: TemplateSection[] } {
+    const byWeight = sections
+      .map((section, index) => ({ section, index }))
+      .sort((a, b) => Number(b.section.required) - Number(a.section.required) ||
+        tierRank(a.section) - tierRank(b.section) ||
+        b.section.weight - a.section.weight);
+
+    const chosen = new Set<number>();
+    let used = 0;
+    for (const { section, index } of byWeight) {
+      const cost = costs[index];
+      if (section.required || used + cost <= budget) {
+        chosen.add(index);
+        used += cost;
+      }
     }
-    return 'node';
+
+    return {
+      included: sections.filter((_, index) => chosen.has(index)),
+      dropped: sections.filter((_, index) => !chosen.has(index))
+    };
+  }
+
+  /**
+   * Join sections, opening each template's group with its title
+   */
+  private renderSections(sections: TemplateSection[]): string {
+    const titled = new Set<string>();
+
+    return sections.map(section => {
+      const template = this.templates.find(t => section.name.startsWith(`${t.name}/`));
+      if (!template || titled.has(template.name)) {
+        return section.content;
+      }
+      titled.add(template.name);
+      return `# ${template.title}\n\n${section.content}`;
+    }).join('\n\n');
   }
 }
 
@@ -283,6 +273,6 @@ export const PromptGenerator = AdaptivePromptGenerator;
 
 // Export a simple function for easier usage
 export function generatePrompt(config: PromptGeneratorConfig): GeneratedPrompt {
-  const generator = new AdaptivePromptGenerator();
+  const generator = new AdaptivePromptGenerator(config.language, config.projectDir);
   return generator.generate(config);
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+
+// Catalogs ship next to dist/ and src/, like the templates
+export const LOCALES_DIR = join(__dirname, '..', 'locales');
+
+// Every other catalog is checked against this one and falls back to it
+export const DEFAULT_LANGUAGE = 'english';
+
+// Multi-line messages are stored as arrays of lines
+type Catalog = Record<string, string | string[]>;
+
+export class MessageCatalog {
+  private messages: Catalog;
+  private fallback: Catalog;
+
+  constructor(public readonly language: string = DEFAULT_LANGUAGE, localesDir: string = LOCALES_DIR) {
+    this.fallback = readCatalog(localesDir, DEFAULT_LANGUAGE);
+    this.messages = language === DEFAULT_LANGUAGE ? this.fallback : readCatalog(localesDir, language);
+  }
+
+  /**
+   * Look up a message and fill in its {placeholders}
+   */
+  public t(key: string, vars: Record<string, string | number> = {}): string {
+    const value = this.messages[key] ?? this.fallback[key] ?? key;
+    const text = Array.isArray(value) ? value.join('\n') : value;
+    return text.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match);
+  }
+}
+
+/**
+ * Languages with a catalog in the locales directory
+ */
+export function getAvailableLanguages(localesDir: string = LOCALES_DIR): string[] {
+  if (!existsSync(localesDir)) {
+    return [DEFAULT_LANGUAGE];
+  }
+  return readdirSync(localesDir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => basename(file, '.json'))
+    .sort();
+}
+
+function readCatalog(localesDir: string, language: string): Catalog {
+  const file = join(localesDir, `${language}.json`);
+  if (!existsSync(file)) {
+    return {};
+  }
+  return JSON.parse(readFileSync(file, 'utf-8'));
+}
@@ -1,3 +1,14 @@
 export * from './types';
 export * from './simple-commander';
-export { generatePrompt } from './generator';
\ No newline at end of file
+export { generatePrompt } from './generator';
+export { validateConfig } from './config-validator';
+export { resolveConfig, setConfigValue, DEFAULT_CONFIG, ZerocodeConfig, ResolvedConfig } from './config';
+export { TokenCounter, EstimateTokenCounter, registerTokenCounter, getTokenCounter } from './tokenizer';
+export { CodeLinter, LintFinding, LintResult, LintRule, LintRuleContext } from './linter';
+export { registerPrinciple, loadPrinciplePlugins, getPrinciples, PrinciplePlugin } from './principles';
+export { renderTemplate, buildTemplateContext, TemplateContext } from './template-engine';
+export { stampPrompt, readLock, lockedConfig, Lockfile, LockEntry } from './provenance';
+export { buildReviewPrompt, parseDiff, readDiff } from './review';
+export { checkResponse, parseZeusSections } from './response-checker';
+export { evaluateResponse, evaluateDiff, loadRubric, DEFAULT_RUBRIC, Rubric, Evaluation } from './evaluator';
+export { runAgentLoop, createChatCompletion, saveTranscript, ChatCompletion, ChatMessage, RunTranscript } from './agent-loop';
\ No newline at end of file
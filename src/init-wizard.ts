@@ -0,0 +1,153 @@
+import * as readline from 'readline';
+import { ComplexityLevel } from './types';
+import { MessageCatalog } from './i18n';
+import { closestMatch } from './suggestions';
+
+export interface WizardAnswers {
+  targets: string[]; // AI tools to write rule files for
+  complexity: ComplexityLevel;
+  language: string;
+  principles: string[];
+  rules: string[]; // Added to the project's own rules
+}
+
+export interface WizardChoices {
+  targets: string[];
+  complexities: ComplexityLevel[];
+  languages: string[];
+  principles: string[];
+}
+
+// One question and its answer; swap it out to drive the wizard without a terminal
+export type Ask = (question: string) => Promise<string>;
+
+export interface TerminalPrompt {
+  ask: Ask;
+  close(): void;
+}
+
+/**
+ * Ask on stdin/stdout with Node's readline
+ */
+export function createTerminalPrompt(): TerminalPrompt {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  // Piped answers can arrive before their question is asked
+  const lines: string[] = [];
+  const waiting: ((line: string) => void)[] = [];
+  let closed = false;
+
+  rl.on('line', line => {
+    const next = waiting.shift();
+    if (next) {
+      next(line);
+    } else {
+      lines.push(line);
+    }
+  });
+  // Ctrl+D ends the input; every question left falls back to its default
+  rl.on('close', () => {
+    closed = true;
+    waiting.splice(0).forEach(resolve => resolve(''));
+  });
+
+  return {
+    ask: question => {
+      rl.setPrompt(question);
+      rl.prompt();
+      if (lines.length > 0) {
+        return Promise.resolve(lines.shift()!);
+      }
+      return closed ? Promise.resolve('') : new Promise(resolve => waiting.push(resolve));
+    },
+    close: () => rl.close()
+  };
+}
+
+/**
+ * Walk through the setup questions. Pressing Enter keeps the default shown.
+ */
+export async function runInitWizard(
+  defaults: WizardAnswers,
+  choices: WizardChoices,
+  ask: Ask,
+  messages: MessageCatalog
+): Promise<WizardAnswers> {
+  const targets = await chooseMany(messages.t('init.targets'), choices.targets, defaults.targets, ask, messages);
+  const complexity = await chooseOne(messages.t('init.complexity'), choices.complexities, defaults.complexity, ask, messages);
+  const language = await chooseOne(messages.t('init.language'), choices.languages, defaults.language, ask, messages);
+  const principles = await chooseMany(messages.t('init.principles'), choices.principles, defaults.principles, ask, messages);
+
+  console.log(`\n${messages.t('init.rules')}`);
+  defaults.rules.forEach(rule => console.log(`  - ${rule}`));
+  const rules = [...defaults.rules];
+  while (true) {
+    const rule = (await ask(messages.t('init.rulePrompt'))).trim();
+    if (!rule) break;
+    rules.push(rule);
+  }
+
+  return { targets, complexity, language, principles, rules };
+}
+
+/**
+ * A yes/no question; Enter means yes
+ */
+export async function confirm(question: string, ask: Ask, messages: MessageCatalog): Promise<boolean> {
+  const answer = (await ask(`${question} ${messages.t('init.yesNo')} `)).trim().toLowerCase();
+  return answer === '' || messages.t('init.yes').split(',').includes(answer);
+}
+
+async function chooseOne<T extends string>(label: string, choices: T[], fallback: T, ask: Ask, messages: MessageCatalog): Promise<T> {
+  printChoices(label, choices, [fallback]);
+
+  while (true) {
+    const answer = (await ask(messages.t('init.pickOne', { default: fallback }))).trim();
+    if (!answer) return fallback;
+
+    const picked = pick(answer, choices);
+    if (picked) return picked;
+    console.log(invalidChoice(answer, choices, messages));
+  }
+}
+
+async function chooseMany(label: string, choices: string[], fallback: string[], ask: Ask, messages: MessageCatalog): Promise<string[]> {
+  printChoices(label, choices, fallback);
+
+  while (true) {
+    const answer = (await ask(messages.t('init.pickMany', { default: fallback.join(', ') || '-' }))).trim();
+    if (!answer) return fallback;
+    if (answer === '-') return [];
+
+    const words = answer.split(/[\s,]+/).filter(word => word.length > 0);
+    const invalid = words.find(word => !pick(word, choices));
+    if (!invalid) {
+      return Array.from(new Set(words.map(word => pick(word, choices)!)));
+    }
+    console.log(invalidChoice(invalid, choices, messages));
+  }
+}
+
+function printChoices(label: string, choices: string[], selected: string[]): void {
+  console.log(`\n${label}`);
+  choices.forEach((choice, index) => {
+    console.log(`  ${index + 1}) ${choice}${selected.includes(choice) ? ' ✓' : ''}`);
+  });
+}
+
+// A choice by its number or its name
+function pick<T extends string>(answer: string, choices: T[]): T | undefined {
+  const number = parseInt(answer, 10);
+  if (String(number) === answer && number >= 1 && number <= choices.length) {
+    return choices[number - 1];
+  }
+  return choices.find(choice => choice.toLowerCase() === answer.toLowerCase());
+}
+
+function invalidChoice(answer: string, choices: string[], messages: MessageCatalog): string {
+  const suggestion = closestMatch(answer, choices);
+  return messages.t(suggestion ? 'init.invalidWithSuggestion' : 'init.invalid', {
+    answer,
+    suggestion: suggestion || '',
+    choices: choices.join(', ')
+  });
+}
@@ -0,0 +1,360 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { extname, join, relative, resolve } from 'path';
+import * as ts from 'typescript';
+import { MessageCatalog } from './i18n';
+
+export interface LintFinding {
+  file: string;
+  line: number;
+  column: number;
+  rule: string;
+  principle: string; // 'hickey', 'linus' or the principle plugin the rule came from
+  message: string;
+}
+
+export interface LintRuleContext {
+  ts: typeof ts; // The compiler API the tree was built with, so rules need no copy of their own
+  sourceFile: ts.SourceFile;
+  report(node: ts.Node, message: string): void;
+}
+
+/**
+ * A check contributed by a principle plugin, called for every node of every file
+ */
+export interface LintRule {
+  id: string;
+  check(node: ts.Node, context: LintRuleContext): void;
+}
+
+// A plugin rule and the principle it belongs to
+export interface PrincipleLintRule extends LintRule {
+  principle: string;
+}
+
+export interface LintResult {
+  files: string[]; // Every file that was checked
+  findings: LintFinding[];
+}
+
+export interface LintSource {
+  file: string;
+  text: string;
+}
+
+export interface SourceMetrics {
+  functions: { name: string; line: number; lines: number }[];
+  abstractions: number; // Classes and interfaces declared
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+const IGNORED_DIRS = ['node_modules', 'dist', 'build', 'coverage', 'out'];
+
+// Words that each name a whole concept; two in one class name means two jobs
+const CONCEPT_SUFFIXES = [
+  'Manager', 'Factory', 'Service', 'Handler', 'Helper', 'Provider', 'Builder', 'Controller',
+  'Processor', 'Wrapper', 'Proxy', 'Singleton', 'Strategy', 'Adapter', 'Facade', 'Decorator', 'Repository'
+];
+
+// Ancestors a class may have before the hierarchy gets hard to follow
+const MAX_INHERITANCE_DEPTH = 2;
+
+const MAX_FUNCTION_LINES = 50;
+
+interface ClassInfo {
+  name: string;
+  base?: string;
+  interfaces: string[];
+  node: ts.Node;
+  sourceFile: ts.SourceFile;
+}
+
+interface InterfaceInfo {
+  name: string;
+  node: ts.Node;
+  sourceFile: ts.SourceFile;
+}
+
+/**
+ * Static checks for the anti-patterns the core prompt warns the AI about
+ */
+export class CodeLinter {
+  private findings: LintFinding[] = [];
+  private classes: ClassInfo[] = [];
+  private interfaces: InterfaceInfo[] = [];
+
+  constructor(
+    private messages: MessageCatalog,
+    private projectDir: string = process.cwd(),
+    private rules: PrincipleLintRule[] = [],
+    private principles?: string[] // Only report findings for these; all when left out
+  ) {}
+
+  /**
+   * Lint every TS/JS file under the given paths, findings sorted by file and line.
+   * Throws when a path does not exist.
+   */
+  public lint(paths: string[] = ['.']): LintResult {
+    const files = this.collectFiles(paths);
+    return { files, findings: this.lintSources(files.map(file => ({ file, text: readFileSync(file, 'utf-8') }))) };
+  }
+
+  /**
+   * Lint code that is not on disk, e.g. code blocks from an AI reply
+   */
+  public lintSources(sources: LintSource[]): LintFinding[] {
+    this.findings = [];
+    this.classes = [];
+    this.interfaces = [];
+
+    for (const source of sources) {
+      this.lintSource(source);
+    }
+
+    // Both need every file parsed first
+    this.checkInheritanceDepth();
+    this.checkSingleImplementations();
+
+    return this.findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+  }
+
+  /**
+   * Source files under the given paths, skipping dependencies, build output and declarations
+   */
+  private collectFiles(paths: string[]): string[] {
+    const files: string[] = [];
+
+    const visit = (path: string) => {
+      if (statSync(path).isDirectory()) {
+        for (const entry of readdirSync(path).sort()) {
+          if (!entry.startsWith('.') && !IGNORED_DIRS.includes(entry)) {
+            visit(join(path, entry));
+          }
+        }
+      } else if (SOURCE_EXTENSIONS.includes(extname(path)) && !path.endsWith('.d.ts')) {
+        files.push(path);
+      }
+    };
+
+    // Check them all first, so a typo is not mistaken for a clean run
+    const absolutes = paths.map(path => resolve(this.projectDir, path));
+    const missing = paths.find((path, index) => !existsSync(absolutes[index]));
+    if (missing !== undefined) {
+      throw new Error(this.messages.t('lint.error.missingPath', { path: missing }));
+    }
+
+    absolutes.forEach(visit);
+    return files;
+  }
+
+  private lintSource(source: LintSource): void {
+    const sourceFile = parseSource(source);
+    const contexts = this.rules.map(rule => ({
+      rule,
+      context: {
+        ts,
+        sourceFile,
+        report: (node: ts.Node, message: string) => this.addFinding(node, sourceFile, rule.id, rule.principle, message)
+      }
+    }));
+
+    const visit = (node: ts.Node) => {
+      if (ts.isClassDeclaration(node) && node.name) {
+        this.checkClassName(node.name.text, node.name, sourceFile);
+        this.classes.push({
+          name: node.name.text,
+          base: this.heritageNames(node, ts.SyntaxKind.ExtendsKeyword)[0],
+          interfaces: this.heritageNames(node, ts.SyntaxKind.ImplementsKeyword),
+          node: node.name,
+          sourceFile
+        });
+      }
+
+      if (ts.isInterfaceDeclaration(node)) {
+        this.checkClassName(node.name.text, node.name, sourceFile);
+        this.interfaces.push({ name: node.name.text, node: node.name, sourceFile });
+      }
+
+      if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+        const name = functionName(node);
+        this.checkFunctionName(name, node, sourceFile);
+        this.checkFunctionLength(name, node, sourceFile);
+      }
+
+      for (const { rule, context } of contexts) {
+        rule.check(node, context);
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  private checkClassName(name: string, node: ts.Node, sourceFile: ts.SourceFile): void {
+    const words = name.match(/[A-Z][a-z0-9]*/g) || [];
+    const concepts = words.filter(word => CONCEPT_SUFFIXES.includes(word));
+    const abstractFactory = words[0] === 'Abstract' && /(Factory|Builder)$/.test(name);
+
+    if (concepts.length >= 2 || abstractFactory) {
+      this.report(node, sourceFile, 'compound-class-name', 'hickey', 'lint.rule.compoundClassName', {
+        name,
+        concepts: (abstractFactory ? ['Abstract', ...concepts] : concepts).join(' + ')
+      });
+    }
+  }
+
+  private checkFunctionName(name: string, node: ts.Node, sourceFile: ts.SourceFile): void {
+    const steps = name.split(/(?<=[a-z0-9])And(?=[A-Z])/);
+    if (steps.length >= 2) {
+      this.report(node, sourceFile, 'and-method-name', 'hickey', 'lint.rule.andMethodName', {
+        name,
+        steps: steps.length
+      });
+    }
+  }
+
+  private checkFunctionLength(name: string, node: ts.Node, sourceFile: ts.SourceFile): void {
+    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
+    const lines = end - start + 1;
+
+    if (lines > MAX_FUNCTION_LINES) {
+      this.report(node, sourceFile, 'huge-function', 'linus', 'lint.rule.hugeFunction', {
+        name,
+        lines,
+        max: MAX_FUNCTION_LINES
+      });
+    }
+  }
+
+  private checkInheritanceDepth(): void {
+    const byName = new Map(this.classes.map(info => [info.name, info]));
+
+    for (const info of this.classes) {
+      const chain = [info.name];
+      let base = info.base;
+      // Bases outside the scanned code still count as one level
+      while (base && !chain.includes(base)) {
+        chain.push(base);
+        base = byName.get(base)?.base;
+      }
+
+      const depth = chain.length - 1;
+      if (depth > MAX_INHERITANCE_DEPTH) {
+        this.report(info.node, info.sourceFile, 'deep-inheritance', 'hickey', 'lint.rule.deepInheritance', {
+          name: info.name,
+          depth,
+          chain: chain.join(' → ')
+        });
+      }
+    }
+  }
+
+  private checkSingleImplementations(): void {
+    for (const info of this.interfaces) {
+      const implementations = this.classes.filter(cls => cls.interfaces.includes(info.name));
+      // Interfaces nobody implements are data shapes, not abstractions
+      if (implementations.length === 1) {
+        this.report(info.node, info.sourceFile, 'single-implementation', 'linus', 'lint.rule.singleImplementation', {
+          name: info.name,
+          implementation: implementations[0].name
+        });
+      }
+    }
+  }
+
+  private heritageNames(node: ts.ClassDeclaration, kind: ts.SyntaxKind): string[] {
+    const clause = node.heritageClauses?.find(heritage => heritage.token === kind);
+    return clause ? clause.types.map(type => type.expression.getText().replace(/^.*\./, '')) : [];
+  }
+
+  private report(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    rule: string,
+    principle: LintFinding['principle'],
+    messageKey: string,
+    vars: Record<string, string | number>
+  ): void {
+    this.addFinding(node, sourceFile, rule, principle, this.messages.t(messageKey, vars));
+  }
+
+  private addFinding(node: ts.Node, sourceFile: ts.SourceFile, rule: string, principle: string, message: string): void {
+    if (this.principles && !this.principles.includes(principle)) {
+      return;
+    }
+
+    const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    this.findings.push({
+      file: relative(this.projectDir, sourceFile.fileName),
+      line: position.line + 1,
+      column: position.character + 1,
+      rule,
+      principle,
+      message
+    });
+  }
+}
+
+/**
+ * Function sizes and abstraction count, for scoring code against a rubric
+ */
+export function measureSource(source: LintSource): SourceMetrics {
+  const sourceFile = parseSource(source);
+  const metrics: SourceMetrics = { functions: [], abstractions: 0 };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)) {
+      metrics.abstractions++;
+    }
+    if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+      const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+      const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
+      metrics.functions.push({ name: functionName(node), line: start + 1, lines: end - start + 1 });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return metrics;
+}
+
+function parseSource(source: LintSource): ts.SourceFile {
+  return ts.createSourceFile(source.file, source.text, ts.ScriptTarget.Latest, true, scriptKind(source.file));
+}
+
+function functionName(node: ts.SignatureDeclaration): string {
+  if (node.name && (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+    return node.name.text;
+  }
+  if (ts.isConstructorDeclaration(node)) {
+    return 'constructor';
+  }
+
+  // Arrow functions and function expressions take the name they are assigned to
+  const parent = node.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyDeclaration(parent) || ts.isPropertyAssignment(parent)) &&
+      ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  // Callbacks are known by the call they are passed to, e.g. `.action()` callback
+  if (ts.isCallExpression(parent) && ts.isPropertyAccessExpression(parent.expression)) {
+    return `.${parent.expression.name.text}() callback`;
+  }
+  return '<anonymous>';
+}
+
+function scriptKind(file: string): ts.ScriptKind {
+  switch (extname(file)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
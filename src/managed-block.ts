@@ -0,0 +1,40 @@
+import { VERSION } from './version';
+
+// ZeroCode owns only what sits between these markers; the rest of the file is the team's
+const BLOCK_PATTERN = /<!-- zerocode:start(?: v[\w.-]+)? -->[\s\S]*?<!-- zerocode:end -->\n?/;
+const BLOCK_END = '<!-- zerocode:end -->';
+
+/**
+ * Wrap content in version-stamped ZeroCode markers
+ */
+export function wrapBlock(content: string): string {
+  return `<!-- zerocode:start v${VERSION} -->\n${content.trim()}\n${BLOCK_END}`;
+}
+
+export function hasBlock(text: string): boolean {
+  return BLOCK_PATTERN.test(text);
+}
+
+/**
+ * Replace the ZeroCode block in a file's text, or append one if there is none
+ */
+export function upsertBlock(text: string, content: string): string {
+  const block = wrapBlock(content);
+
+  if (hasBlock(text)) {
+    // A function, so `$` in the prompt is not read as a replacement pattern
+    return text.replace(BLOCK_PATTERN, () => `${block}\n`);
+  }
+  if (text.trim().length === 0) {
+    return `${block}\n`;
+  }
+  return `${text.trimEnd()}\n\n${block}\n`;
+}
+
+/**
+ * Remove the ZeroCode block, leaving everything else as it was
+ */
+export function removeBlock(text: string): string {
+  const without = text.replace(BLOCK_PATTERN, '');
+  return without.trim().length === 0 ? '' : `${without.trimEnd()}\n`;
+}
@@ -0,0 +1,86 @@
+export interface MarkdownNode {
+  readonly title: string;
+  readonly level: number; // 0 for the document itself
+  readonly lines: string[]; // Heading line and body, up to the first child heading
+  children: MarkdownNode[];
+}
+
+/**
+ * Parse markdown into a heading tree. Headings inside fenced code blocks
+ * are content, not structure.
+ */
+export function parseMarkdownTree(markdown: string): MarkdownNode {
+  const root: MarkdownNode = { title: '', level: 0, lines: [], children: [] };
+  const stack: MarkdownNode[] = [root];
+  let fence: string | null = null;
+
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    fence = nextFence(fence, line);
+    const heading = fence === null && !isFenceLine(line) ? line.match(/^(#{1,6}) +(.*)$/) : null;
+
+    if (!heading) {
+      stack[stack.length - 1].lines.push(line);
+      continue;
+    }
+
+    const node: MarkdownNode = { title: heading[2].trim(), level: heading[1].length, lines: [line], children: [] };
+    while (stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
+  }
+
+  return root;
+}
+
+export function renderMarkdownTree(node: MarkdownNode): string {
+  return flattenLines(node).join('\n');
+}
+
+/**
+ * Every heading title in a markdown document, outside code blocks
+ */
+export function headingTitles(markdown: string): string[] {
+  const titles: string[] = [];
+  const walk = (node: MarkdownNode) => {
+    if (node.level > 0) titles.push(node.title);
+    node.children.forEach(walk);
+  };
+  walk(parseMarkdownTree(markdown));
+  return titles;
+}
+
+/**
+ * Close a code block left open by a cut, so the rest of the prompt is not read as code
+ */
+export function closeOpenFence(markdown: string): string {
+  let fence: string | null = null;
+  for (const line of markdown.split('\n')) {
+    fence = nextFence(fence, line);
+  }
+  return fence === null ? markdown : `${markdown.replace(/\n*$/, '')}\n${fence}`;
+}
+
+export function isFenceLine(line: string): boolean {
+  return /^\s{0,3}(`{3,}|~{3,})/.test(line);
+}
+
+/**
+ * Track fenced code blocks: a fence closes only on the same marker
+ * character, at least as long, with no info string
+ */
+export function nextFence(open: string | null, line: string): string | null {
+  const match = line.match(/^\s{0,3}(`{3,}|~{3,})(.*)$/);
+  if (!match) return open;
+
+  const [, marker, rest] = match;
+  if (open === null) return marker;
+
+  const closes = marker[0] === open[0] && marker.length >= open.length && rest.trim() === '';
+  return closes ? null : open;
+}
+
+function flattenLines(node: MarkdownNode): string[] {
+  return [...node.lines, ...node.children.flatMap(flattenLines)];
+}
@@ -1,6 +1,10 @@
-import { PromptGeneratorConfig } from './types';
+import { PromptGeneratorConfig, TemplateSection, tierRank } from './types';
+import { MessageCatalog } from './i18n';
+import { getEmojiAliases } from './principles';
+import { MarkdownNode, closeOpenFence, headingTitles, parseMarkdownTree, renderMarkdownTree } from './markdown-tree';
 
 export interface PlatformLimits {
+  maxTokens: number;
   maxCharacters?: number;
   maxLines?: number;
   preferredFormat: 'markdown' | 'plain' | 'structured';
@@ -12,10 +16,19 @@ export interface OptimizationResult {
   optimizedPrompt: string;
   warnings: string[];
   appliedOptimizations: string[];
+  droppedSections: string[];
+}
+
+// A generator section and the heading titles it put into the prompt
+interface LocatedSection {
+  section: TemplateSection;
+  order: number;
+  titles: string[];
 }
 
 export class PlatformOptimizer {
   private platformLimits: Map<string, PlatformLimits> = new Map();
+  private catalogs: Map<string, MessageCatalog> = new Map();
 
   constructor() {
     this.initializePlatformLimits();
@@ -23,7 +36,15 @@ export class PlatformOptimizer {
   
   public getPlatformLimit(platform: string): number {
     const limits = this.platformLimits.get(platform);
-    return limits?.maxCharacters || 10000; // Default to 10k tokens
+    return limits?.maxCharacters || 10000; // Default to 10k characters
+  }
+
+  /**
+   * Token budget for prompt assembly, counted with a TokenCounter
+   */
+  public getTokenBudget(platform: string): number {
+    const limits = this.platformLimits.get(platform);
+    return limits?.maxTokens || 2500;
   }
 
   /**
@@ -32,6 +53,7 @@ export class PlatformOptimizer {
   private initializePlatformLimits(): void {
     // Cursor IDE - optimized for code generation
     this.platformLimits.set('cursor', {
+      maxTokens: 3200,
       maxCharacters: 15000, // Increased to allow full templates
       preferredFormat: 'markdown',
       supportsEmojis: true,
@@ -40,7 +62,8 @@ export class PlatformOptimizer {
 
     // Claude - optimized for detailed explanations
     this.platformLimits.set('claude', {
-      maxCharacters: 20000, // Increased for detailed explanations
+      maxTokens: 8500, // Room for every expert section of a single template, in any language
+      maxCharacters: 30000, // Increased for detailed explanations
       preferredFormat: 'structured',
       supportsEmojis: true,
       requiresSpecialFormatting: ['headers', 'sections', 'examples']
@@ -48,6 +71,7 @@ export class PlatformOptimizer {
 
     // Ollama - optimized for local models with limited context
     this.platformLimits.set('ollama', {
+      maxTokens: 1600,
       maxCharacters: 8000, // Increased but still conservative
       maxLines: 300,
       preferredFormat: 'plain',
@@ -55,8 +79,18 @@ export class PlatformOptimizer {
       requiresSpecialFormatting: ['simple-structure']
     });
 
+    // GitHub Copilot - instructions file read alongside every chat request
+    this.platformLimits.set('copilot', {
+      maxTokens: 1600,
+      maxCharacters: 8000, // Keep it short, Copilot sends it with every request
+      preferredFormat: 'markdown',
+      supportsEmojis: true,
+      requiresSpecialFormatting: ['bullet-points']
+    });
+
     // Universal - balanced approach
     this.platformLimits.set('universal', {
+      maxTokens: 2500,
       maxCharacters: 12000, // Increased for better compatibility
       preferredFormat: 'markdown',
       supportsEmojis: true,
@@ -67,43 +101,41 @@ export class PlatformOptimizer {
   /**
    * Optimize prompt for Cursor IDE
    */
-  public optimizeForCursor(prompt: string, config: PromptGeneratorConfig): OptimizationResult {
+  public optimizeForCursor(prompt: string, config: PromptGeneratorConfig, sections: TemplateSection[] = []): OptimizationResult {
     const limits = this.platformLimits.get('cursor')!;
     const warnings: string[] = [];
     const appliedOptimizations: string[] = [];
+    const messages = this.messagesFor(config);
 
     let optimizedPrompt = prompt;
 
     // Add Cursor-specific code generation focus
-    const cursorPrefix = `
-## Cursor IDE Optimization
-
-You are specifically optimized for code generation in Cursor IDE. Focus on:
-- Providing complete, runnable code examples
-- Using TypeScript when possible
-- Including proper imports and exports
-- Suggesting file structures and organization
-- Optimizing for developer productivity
-
-`;
+    const cursorPrefix = `\n${messages.t('optimizer.prefix.cursor')}\n\n`;
 
     optimizedPrompt = this.insertAfterHeader(optimizedPrompt, cursorPrefix);
-    appliedOptimizations.push('Added Cursor-specific code generation focus');
+    appliedOptimizations.push(messages.t('optimizer.applied.cursorFocus'));
 
     // Enhance code-related sections
-    optimizedPrompt = this.enhanceCodeSections(optimizedPrompt);
-    appliedOptimizations.push('Enhanced code-related sections');
+    optimizedPrompt = this.enhanceCodeSections(optimizedPrompt, messages);
+    appliedOptimizations.push(messages.t('optimizer.applied.codeSections'));
 
     // Check character limits
+    let droppedSections: string[] = [];
     if (optimizedPrompt.length > limits.maxCharacters!) {
-      optimizedPrompt = this.truncatePrompt(optimizedPrompt, limits.maxCharacters!);
-      warnings.push(`Prompt truncated to ${limits.maxCharacters} characters for Cursor compatibility`);
+      const truncated = this.truncateToFit(optimizedPrompt, text => text.length <= limits.maxCharacters!, sections, messages);
+      optimizedPrompt = truncated.prompt;
+      droppedSections = truncated.dropped;
+      warnings.push(messages.t('optimizer.warning.truncatedChars', { limit: limits.maxCharacters!, platform: 'Cursor' }));
+      if (droppedSections.length > 0) {
+        warnings.push(messages.t('optimizer.warning.droppedSections', { sections: droppedSections.join(', ') }));
+      }
     }
 
     return {
       optimizedPrompt,
       warnings,
-      appliedOptimizations
+      appliedOptimizations,
+      droppedSections
     };
   }
 
@@ -114,98 +146,128 @@ You are specifically optimized for code generation in Cursor IDE. Focus on:
     const limits = this.platformLimits.get('claude')!;
     const warnings: string[] = [];
     const appliedOptimizations: string[] = [];
+    const messages = this.messagesFor(config);
 
     let optimizedPrompt = prompt;
 
     // Add Claude-specific structured thinking
-    const claudePrefix = `
-## Claude Optimization
-
-You are optimized for Claude's structured reasoning capabilities. Emphasize:
-- Detailed step-by-step explanations
-- Multiple perspectives on complex problems
-- Comprehensive analysis with pros/cons
-- Clear reasoning chains
-- Thorough documentation of thought processes
-
-`;
+    const claudePrefix = `\n${messages.t('optimizer.prefix.claude')}\n\n`;
 
     optimizedPrompt = this.insertAfterHeader(optimizedPrompt, claudePrefix);
-    appliedOptimizations.push('Added Claude-specific structured thinking');
+    appliedOptimizations.push(messages.t('optimizer.applied.claudeThinking'));
 
     // Enhance structured sections
-    optimizedPrompt = this.enhanceStructuredSections(optimizedPrompt);
-    appliedOptimizations.push('Enhanced structured sections');
+    optimizedPrompt = this.enhanceStructuredSections(optimizedPrompt, messages);
+    appliedOptimizations.push(messages.t('optimizer.applied.structuredSections'));
 
     // Add more detailed examples for Claude
-    optimizedPrompt = this.addDetailedExamples(optimizedPrompt);
-    appliedOptimizations.push('Added detailed examples');
+    optimizedPrompt = this.addDetailedExamples(optimizedPrompt, messages);
+    appliedOptimizations.push(messages.t('optimizer.applied.detailedExamples'));
 
     // Check character limits (Claude has higher limits)
     if (optimizedPrompt.length > limits.maxCharacters!) {
-      warnings.push(`Prompt is ${optimizedPrompt.length} characters (within Claude's ${limits.maxCharacters} limit)`);
+      warnings.push(messages.t('optimizer.warning.claudeLength', { length: optimizedPrompt.length, limit: limits.maxCharacters! }));
     }
 
     return {
       optimizedPrompt,
       warnings,
-      appliedOptimizations
+      appliedOptimizations,
+      droppedSections: []
     };
   }
 
   /**
    * Optimize prompt for Ollama (local models)
    */
-  public optimizeForOllama(prompt: string, config: PromptGeneratorConfig): OptimizationResult {
+  public optimizeForOllama(prompt: string, config: PromptGeneratorConfig, sections: TemplateSection[] = []): OptimizationResult {
     const limits = this.platformLimits.get('ollama')!;
     const warnings: string[] = [];
     const appliedOptimizations: string[] = [];
+    const messages = this.messagesFor(config);
 
     let optimizedPrompt = prompt;
 
     // Add Ollama-specific local model optimization
-    const ollamaPrefix = `
-## Ollama Local Model Optimization
-
-You are optimized for local model efficiency. Focus on:
-- Concise, direct responses
-- Essential information only
-- Minimal context switching
-- Clear, simple language
-- Efficient token usage
-
-`;
+    const ollamaPrefix = `\n${messages.t('optimizer.prefix.ollama')}\n\n`;
 
     optimizedPrompt = this.insertAfterHeader(optimizedPrompt, ollamaPrefix);
-    appliedOptimizations.push('Added Ollama-specific local model optimization');
+    appliedOptimizations.push(messages.t('optimizer.applied.ollamaFocus'));
 
     // Remove emojis for better local model compatibility
     if (!limits.supportsEmojis) {
       optimizedPrompt = this.removeEmojis(optimizedPrompt);
-      appliedOptimizations.push('Removed emojis for local model compatibility');
+      appliedOptimizations.push(messages.t('optimizer.applied.emojisRemoved'));
     }
 
     // Simplify structure for local models
     optimizedPrompt = this.simplifyStructure(optimizedPrompt);
-    appliedOptimizations.push('Simplified structure for local models');
+    appliedOptimizations.push(messages.t('optimizer.applied.simplified'));
+
+    // Aggressive truncation for local models, by characters and by lines
+    const overCharacters = optimizedPrompt.length > limits.maxCharacters!;
+    const overLines = !!limits.maxLines && optimizedPrompt.split('\n').length > limits.maxLines;
+    let droppedSections: string[] = [];
+    if (overCharacters || overLines) {
+      const fits = (text: string) =>
+        text.length <= limits.maxCharacters! && (!limits.maxLines || text.split('\n').length <= limits.maxLines);
+      const truncated = this.truncateToFit(optimizedPrompt, fits, sections, messages);
+      optimizedPrompt = truncated.prompt;
+      droppedSections = truncated.dropped;
+    }
+    if (overCharacters) {
+      warnings.push(messages.t('optimizer.warning.truncatedChars', { limit: limits.maxCharacters!, platform: 'Ollama' }));
+    }
+    if (overLines) {
+      warnings.push(messages.t('optimizer.warning.truncatedLines', { limit: limits.maxLines!, platform: 'Ollama' }));
+    }
 
-    // Aggressive truncation for local models
-    if (optimizedPrompt.length > limits.maxCharacters!) {
-      optimizedPrompt = this.truncatePrompt(optimizedPrompt, limits.maxCharacters!);
-      warnings.push(`Prompt truncated to ${limits.maxCharacters} characters for Ollama compatibility`);
+    if (droppedSections.length > 0) {
+      warnings.push(messages.t('optimizer.warning.droppedSections', { sections: droppedSections.join(', ') }));
     }
 
-    // Check line limits
-    const lineCount = optimizedPrompt.split('\n').length;
-    if (limits.maxLines && lineCount > limits.maxLines) {
-      optimizedPrompt = this.truncateByLines(optimizedPrompt, limits.maxLines);
-      warnings.push(`Prompt truncated to ${limits.maxLines} lines for Ollama compatibility`);
+    return {
+      optimizedPrompt,
+      warnings,
+      appliedOptimizations,
+      droppedSections
+    };
+  }
+
+  /**
+   * Optimize prompt for GitHub Copilot
+   */
+  public optimizeForCopilot(prompt: string, config: PromptGeneratorConfig, sections: TemplateSection[] = []): OptimizationResult {
+    const limits = this.platformLimits.get('copilot')!;
+    const warnings: string[] = [];
+    const appliedOptimizations: string[] = [];
+    const messages = this.messagesFor(config);
+
+    let optimizedPrompt = prompt;
+
+    // Add Copilot-specific completion focus
+    const copilotPrefix = `\n${messages.t('optimizer.prefix.copilot')}\n\n`;
+
+    optimizedPrompt = this.insertAfterHeader(optimizedPrompt, copilotPrefix);
+    appliedOptimizations.push(messages.t('optimizer.applied.copilotFocus'));
+
+    // Check character limits
+    let droppedSections: string[] = [];
+    if (optimizedPrompt.length > limits.maxCharacters!) {
+      const truncated = this.truncateToFit(optimizedPrompt, text => text.length <= limits.maxCharacters!, sections, messages);
+      optimizedPrompt = truncated.prompt;
+      droppedSections = truncated.dropped;
+      warnings.push(messages.t('optimizer.warning.truncatedChars', { limit: limits.maxCharacters!, platform: 'Copilot' }));
+      if (droppedSections.length > 0) {
+        warnings.push(messages.t('optimizer.warning.droppedSections', { sections: droppedSections.join(', ') }));
+      }
     }
 
     return {
       optimizedPrompt,
       warnings,
-      appliedOptimizations
+      appliedOptimizations,
+      droppedSections
     };
   }
 
@@ -229,6 +291,10 @@ You are optimized for local model efficiency. Focus on:
       return 'claude';
     }
     
+    if (promptLower.includes('copilot') || promptLower.includes('github')) {
+      return 'copilot';
+    }
+    
     if (promptLower.includes('ollama') || promptLower.includes('local') || promptLower.includes('llama')) {
       return 'ollama';
     }
@@ -240,66 +306,68 @@ You are optimized for local model efficiency. Focus on:
   /**
    * Apply platform-specific optimizations
    */
-  public optimize(prompt: string, config: PromptGeneratorConfig): OptimizationResult {
+  public optimize(prompt: string, config: PromptGeneratorConfig, sections: TemplateSection[] = []): OptimizationResult {
     // Use the configured platform directly, don't auto-detect for universal
     switch (config.platform) {
       case 'cursor':
-        return this.optimizeForCursor(prompt, config);
+        return this.optimizeForCursor(prompt, config, sections);
       case 'claude':
         return this.optimizeForClaude(prompt, config);
       case 'ollama':
-        return this.optimizeForOllama(prompt, config);
+        return this.optimizeForOllama(prompt, config, sections);
+      case 'copilot':
+        return this.optimizeForCopilot(prompt, config, sections);
       case 'universal':
       default:
-        return this.optimizeForUniversal(prompt, config);
+        return this.optimizeForUniversal(prompt, config, sections);
     }
   }
 
   /**
    * Universal optimization (balanced approach)
    */
-  private optimizeForUniversal(prompt: string, config: PromptGeneratorConfig): OptimizationResult {
+  private optimizeForUniversal(prompt: string, config: PromptGeneratorConfig, sections: TemplateSection[] = []): OptimizationResult {
     const limits = this.platformLimits.get('universal')!;
     const warnings: string[] = [];
     const appliedOptimizations: string[] = [];
+    const messages = this.messagesFor(config);
 
     let optimizedPrompt = prompt;
 
     // Add universal compatibility note
-    const universalPrefix = `
-## Universal Compatibility
-
-This prompt is optimized for compatibility across multiple AI platforms:
-- Works with Cursor, Claude, Ollama, and other AI tools
-- Balanced approach between detail and conciseness
-- Standard markdown formatting
-- Clear structure for easy parsing
-
-`;
+    const universalPrefix = `\n${messages.t('optimizer.prefix.universal')}\n\n`;
 
     optimizedPrompt = this.insertAfterHeader(optimizedPrompt, universalPrefix);
-    appliedOptimizations.push('Added universal compatibility optimization');
+    appliedOptimizations.push(messages.t('optimizer.applied.universal'));
 
     // Check character limits
+    let droppedSections: string[] = [];
     if (optimizedPrompt.length > limits.maxCharacters!) {
-      optimizedPrompt = this.truncatePrompt(optimizedPrompt, limits.maxCharacters!);
-      warnings.push(`Prompt truncated to ${limits.maxCharacters} characters for universal compatibility`);
+      const truncated = this.truncateToFit(optimizedPrompt, text => text.length <= limits.maxCharacters!, sections, messages);
+      optimizedPrompt = truncated.prompt;
+      droppedSections = truncated.dropped;
+      warnings.push(messages.t('optimizer.warning.truncatedChars', { limit: limits.maxCharacters!, platform: 'universal' }));
+      if (droppedSections.length > 0) {
+        warnings.push(messages.t('optimizer.warning.droppedSections', { sections: droppedSections.join(', ') }));
+      }
     }
 
     return {
       optimizedPrompt,
       warnings,
-      appliedOptimizations
+      appliedOptimizations,
+      droppedSections
     };
   }
 
   /**
-   * Helper method to insert content after the main header
+   * Helper method to insert content after the main header, before the
+   * first `## ` section so no heading is cut off from its body
    */
   private insertAfterHeader(prompt: string, content: string): string {
-    const headerMatch = prompt.match(/^(# .*?\n\n.*?\n\n)/s);
-    if (headerMatch) {
-      return prompt.replace(headerMatch[0], headerMatch[0] + content);
+    const firstSection = prompt.search(/^## /m);
+    if (firstSection !== -1) {
+      return prompt.slice(0, firstSection) + content.replace(/^\n+/, '') + prompt.slice(firstSection);
     }
     return content + prompt;
   }
@@ -307,28 +375,30 @@ This prompt is optimized for compatibility across multiple AI platforms:
   /**
    * Enhance code-related sections for Cursor
    */
-  private enhanceCodeSections(prompt: string): string {
+  private enhanceCodeSections(prompt: string, messages: MessageCatalog): string {
     return prompt.replace(
       /## Implementation Guidelines/g,
-      '## Code Implementation Guidelines\n\n**For Cursor IDE users:**\n- Always provide complete, runnable code\n- Include proper TypeScript types\n- Suggest file organization\n- Consider IDE integration\n\n## Implementation Guidelines'
+      `${messages.t('optimizer.cursorCodeSection')}\n\n## Implementation Guidelines`
     );
   }
 
   /**
    * Enhance structured sections for Claude
    */
-  private enhanceStructuredSections(prompt: string): string {
+  private enhanceStructuredSections(prompt: string, messages: MessageCatalog): string {
+    const hint = messages.t('optimizer.claudeObjectiveHint');
+
     // Look for the 🎯 OBJECTIVE pattern and enhance it
     let enhanced = prompt.replace(
       /🎯 OBJECTIVE:/g,
-      '🎯 OBJECTIVE:\n*Claude users: Provide comprehensive analysis with multiple perspectives*\n'
+      `🎯 OBJECTIVE:\n${hint}\n`
     );
     
     // If that didn't work, try other patterns
     if (enhanced === prompt) {
       enhanced = prompt.replace(
         /### 🎯 OBJECTIVE/g,
-        '### 🎯 OBJECTIVE\n*Claude users: Provide comprehensive analysis with multiple perspectives*'
+        `### 🎯 OBJECTIVE\n${hint}`
       );
     }
     
@@ -338,27 +408,8 @@ This prompt is optimized for compatibility across multiple AI platforms:
   /**
    * Add detailed examples for Claude
    */
-  private addDetailedExamples(prompt: string): string {
-    const exampleSection = `
-
-## Detailed Examples for Claude
-
-### Example 1: Code Review Request
-**Request:** "Review this React component"
-**Response Structure:**
-🎯 **OBJECTIVE:** Analyze component for Hickey/Linus/Zeus principles
-🔧 **IMPLEMENTATION:** Specific improvements with code examples
-⚠️ **CONSIDERATIONS:** Potential issues and trade-offs
-📈 **VALIDATION:** Testing strategies and success metrics
-
-### Example 2: Architecture Decision
-**Request:** "Should I use Redux or Context API?"
-**Response Structure:**
-🎯 **OBJECTIVE:** Choose state management based on real needs (Linus)
-🔧 **IMPLEMENTATION:** Simple solution first (Hickey), structured comparison (Zeus)
-⚠️ **CONSIDERATIONS:** Complexity trade-offs and team familiarity
-📈 **VALIDATION:** Measurable criteria for success
-`;
+  private addDetailedExamples(prompt: string, messages: MessageCatalog): string {
+    const exampleSection = `\n\n${messages.t('optimizer.claudeExamples')}\n`;
 
     return prompt + exampleSection;
   }
@@ -367,11 +418,11 @@ This prompt is optimized for compatibility across multiple AI platforms:
    * Remove emojis for platforms that don't support them well
    */
   private removeEmojis(prompt: string): string {
-    return prompt
-      .replace(/🎯/g, '[OBJECTIVE]')
-      .replace(/🔧/g, '[IMPLEMENTATION]')
-      .replace(/⚠️/g, '[CONSIDERATIONS]')
-      .replace(/📈/g, '[VALIDATION]')
+    // Emojis that carry meaning become the plain labels their principles give them
+    const labelled = Object.entries(getEmojiAliases())
+      .reduce((text, [emoji, label]) => text.split(emoji).join(label), prompt);
+
+    return labelled
       .replace(/[\u{1F600}-\u{1F64F}]|[\u{1F300}-\u{1F5FF}]|[\u{1F680}-\u{1F6FF}]|[\u{1F1E0}-\u{1F1FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu, '');
   }
 
@@ -380,82 +431,113 @@ This prompt is optimized for compatibility across multiple AI platforms:
    */
   private simplifyStructure(prompt: string): string {
     return prompt
-      .replace(/### /g, '## ')  // Reduce heading levels
-      .replace(/#### /g, '### ')
+      .replace(/^#{3,} (.*?):?[ \t]*$/gm, '$1:')  // Deep headings become labels, so each `## ` keeps its body
       .replace(/\*\*([^*]+)\*\*/g, '$1:')  // Simplify bold formatting
       .replace(/- \[ \]/g, '-');  // Simplify checkboxes
   }
 
   /**
-   * Truncate prompt to character limit while preserving important sections
+   * Drop whole optional sections, highest tier and then lowest weight first,
+   * until the prompt fits.
+   * Anything that is not part of an optional section is kept.
    */
-  private truncatePrompt(prompt: string, maxChars: number): string {
-    if (prompt.length <= maxChars) {
-      return prompt;
+  private truncateToFit(
+    prompt: string,
+    fits: (text: string) => boolean,
+    sections: TemplateSection[],
+    messages: MessageCatalog
+  ): { prompt: string; dropped: string[] } {
+    const marker = `\n\n${messages.t('optimizer.truncated')}`;
+    const tree = parseMarkdownTree(prompt);
+    const owners = this.locateSections(tree, sections);
+    const dropped: string[] = [];
+
+    const candidates = Array.from(new Set(owners.values()))
+      .filter(located => !located.section.required)
+      .sort((a, b) => tierRank(b.section) - tierRank(a.section) || a.section.weight - b.section.weight || b.order - a.order);
+
+    for (const candidate of candidates) {
+      if (fits(renderMarkdownTree(tree) + marker)) break;
+
+      this.removeSection(tree, owners, candidate);
+      dropped.push(candidate.section.name);
     }
 
-    const truncationMessage = '\n\n[Truncated for platform compatibility]';
-    
-    // Try to preserve the footer (Usage Instructions section)
-    const footerMatch = prompt.match(/\n\n## Usage Instructions[\s\S]*$/);
-    const footerLength = footerMatch ? footerMatch[0].length : 0;
-    
-    // Reserve space for footer and truncation message
-    const availableChars = maxChars - truncationMessage.length - footerLength;
-    
-    if (availableChars < prompt.length * 0.3) {
-      // If we can't preserve a reasonable amount of content, just truncate normally
-      const simpleAvailable = maxChars - truncationMessage.length;
-      const truncated = prompt.substring(0, simpleAvailable);
-      const lastParagraph = truncated.lastIndexOf('\n\n');
-      
-      if (lastParagraph > simpleAvailable * 0.8) {
-        return truncated.substring(0, lastParagraph) + truncationMessage;
-      } else {
-        return truncated + truncationMessage;
+    this.removeEmptyHeadings(tree);
+    let text = renderMarkdownTree(tree).replace(/\n+$/, '') + marker;
+
+    // Required content alone is too long: cut whole lines, never inside an open code block
+    if (!fits(text)) {
+      const lines = renderMarkdownTree(tree).split('\n');
+      while (lines.length > 0 && !fits(closeOpenFence(lines.join('\n')) + marker)) {
+        lines.pop();
       }
+      text = closeOpenFence(lines.join('\n')).replace(/\n+$/, '') + marker;
     }
 
-    // Truncate the middle content but preserve header and footer
-    const headerMatch = prompt.match(/^(# .*?\n\n.*?\n\n## Core Principles[\s\S]*?\n\n)/);
-    const headerLength = headerMatch ? headerMatch[0].length : 0;
-    
-    const mainContentStart = headerLength;
-    const mainContentEnd = prompt.length - footerLength;
-    const mainContentAvailable = availableChars - headerLength;
-    
-    if (mainContentAvailable > 0) {
-      const header = prompt.substring(0, headerLength);
-      const mainContent = prompt.substring(mainContentStart, mainContentStart + mainContentAvailable);
-      const footer = footerMatch ? footerMatch[0] : '';
-      
-      // Find a good break point in the main content
-      const lastParagraph = mainContent.lastIndexOf('\n\n');
-      const finalMainContent = lastParagraph > mainContentAvailable * 0.8 
-        ? mainContent.substring(0, lastParagraph)
-        : mainContent;
-      
-      return header + finalMainContent + truncationMessage + footer;
-    } else {
-      // Fallback to simple truncation
-      const truncated = prompt.substring(0, maxChars - truncationMessage.length);
-      return truncated + truncationMessage;
-    }
+    return { prompt: text, dropped };
   }
 
   /**
-   * Truncate prompt to line limit
+   * Map each heading in the prompt to the generator section it came from.
+   * Sections appear in order, so a heading belongs to the latest section
+   * that has started and lists it; titles shared by several templates stay
+   * unambiguous. Headings the section does not list (optimizer rewrites)
+   * go with their parent.
    */
-  private truncateByLines(prompt: string, maxLines: number): string {
-    const lines = prompt.split('\n');
-    if (lines.length <= maxLines) {
-      return prompt;
-    }
+  private locateSections(tree: MarkdownNode, sections: TemplateSection[]): Map<MarkdownNode, LocatedSection> {
+    const located: LocatedSection[] = sections
+      .map((section, order) => ({ section, order, titles: headingTitles(section.content) }))
+      .filter(entry => entry.titles.length > 0);
+    const owners = new Map<MarkdownNode, LocatedSection>();
+    let next = 0;
+    let current: LocatedSection | undefined;
+
+    const walk = (parent: MarkdownNode, inherited?: LocatedSection) => {
+      for (const node of parent.children) {
+        if (next < located.length && node.title === located[next].titles[0]) {
+          current = located[next++];
+        }
+        const owner = current && current.titles.includes(node.title) ? current : inherited;
+        if (owner) owners.set(node, owner);
+        walk(node, owner);
+      }
+    };
+    walk(tree);
 
-    const truncationLines = ['', '[Truncated for platform compatibility]'];
-    const availableLines = maxLines - truncationLines.length;
-    
-    return lines.slice(0, availableLines).join('\n') + '\n' + truncationLines.join('\n');
+    return owners;
+  }
+
+  /**
+   * Remove a section's headings; nested headings of other sections move up in their place
+   */
+  private removeSection(parent: MarkdownNode, owners: Map<MarkdownNode, LocatedSection>, target: LocatedSection): void {
+    parent.children = parent.children.flatMap(child => {
+      this.removeSection(child, owners, target);
+      return owners.get(child) === target ? child.children : [child];
+    });
+  }
+
+  /**
+   * Template titles left with nothing under them after their sections were dropped
+   */
+  private removeEmptyHeadings(node: MarkdownNode): boolean {
+    const hadChildren = node.children.length > 0;
+    node.children = node.children.filter(child => !this.removeEmptyHeadings(child));
+    const bodyIsBlank = node.lines.slice(1).every(line => line.trim() === '');
+    return node.level > 0 && hadChildren && node.children.length === 0 && bodyIsBlank;
+  }
+
+  /**
+   * Message catalog for the configured language, loaded once per language
+   */
+  private messagesFor(config: PromptGeneratorConfig): MessageCatalog {
+    let catalog = this.catalogs.get(config.language);
+    if (!catalog) {
+      catalog = new MessageCatalog(config.language);
+      this.catalogs.set(config.language, catalog);
+    }
+    return catalog;
   }
 
   /**
@@ -0,0 +1,161 @@
+import { existsSync } from 'fs';
+import { isAbsolute, resolve } from 'path';
+import { PromptTemplate, TemplateSection } from './types';
+import { MessageCatalog } from './i18n';
+import { TemplateLoader, parseTemplate } from './template-loader';
+import { LintRule, PrincipleLintRule } from './linter';
+
+export interface PrincipleTrigger {
+  patterns: string[]; // Phrases in a request, e.g. "why does this crash"
+  apply: string; // The rule the AI should reach for, e.g. "Kernighan Rule - make it easy to debug"
+}
+
+export interface PrincipleExample {
+  name: string;
+  content: string;
+  matches?: string[]; // Profile languages/frameworks that select it; always when left out
+  weight?: number;
+}
+
+/**
+ * What a principle package or directory exports, as `module.exports` or `export default`
+ */
+export interface PrinciplePlugin {
+  name: string; // Lowercase id used in the `principles` setting
+  description?: string;
+  template?: string; // Markdown in the templates/*.md format: `# Title`, then `## ` sections
+  triggers?: PrincipleTrigger[];
+  examples?: PrincipleExample[];
+  lintRules?: LintRule[];
+  aliases?: Record<string, string>; // Emoji → plain label for platforms without emoji support
+}
+
+export interface Principle extends PrinciplePlugin {
+  source: string; // 'builtin' or the file the plugin was loaded from
+}
+
+// The Zeus response markers, spelled out for local models
+const ZEUS_ALIASES: Record<string, string> = {
+  '🎯': '[OBJECTIVE]',
+  '🔧': '[IMPLEMENTATION]',
+  '⚠️': '[CONSIDERATIONS]',
+  '📈': '[VALIDATION]'
+};
+
+// Trigger patterns sit with the core prompt's own, ahead of the platform rules
+const TRIGGER_WEIGHT = 88;
+
+const principles: Map<string, Principle> = new Map();
+for (const name of new TemplateLoader().names()) {
+  registerPrinciple({ name, aliases: name === 'zeus' ? ZEUS_ALIASES : undefined }, 'builtin');
+}
+
+/**
+ * Make a principle available by name; one with the same name is replaced
+ */
+export function registerPrinciple(plugin: PrinciplePlugin, source: string = 'builtin'): void {
+  principles.set(plugin.name, { ...plugin, source });
+}
+
+export function getPrinciples(): Principle[] {
+  return Array.from(principles.values());
+}
+
+export function getPrincipleNames(): string[] {
+  return Array.from(principles.keys());
+}
+
+/**
+ * Load and register plugins from package names or paths. Paths are taken
+ * relative to the project. Returns a message for every plugin that failed.
+ */
+export function loadPrinciplePlugins(specs: string[], projectDir: string = process.cwd()): string[] {
+  const errors: string[] = [];
+
+  for (const spec of specs) {
+    try {
+      const local = spec.startsWith('.') || isAbsolute(spec);
+      const file = local ? require.resolve(resolve(projectDir, spec)) : require.resolve(spec, { paths: [projectDir] });
+      const exported = require(file);
+      const plugin: PrinciplePlugin = exported && exported.default ? exported.default : exported;
+
+      const problem = checkPlugin(plugin);
+      if (problem) {
+        errors.push(`${spec}: ${problem}`);
+        continue;
+      }
+      registerPrinciple(plugin, existsSync(file) ? file : spec);
+    } catch (error: any) {
+      errors.push(`${spec}: ${error.message.split('\n')[0]}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The principle's prompt template: its own sections plus its trigger patterns.
+ * Built-in principles read theirs from the templates directory, in the catalog's language.
+ */
+export function principleTemplate(principle: Principle, messages: MessageCatalog): PromptTemplate | undefined {
+  const template = principle.source === 'builtin'
+    ? new TemplateLoader().load(principle.name, messages.language)
+    : principle.template ? parseTemplate(principle.name, principle.template) : undefined;
+
+  if (!principle.triggers || principle.triggers.length === 0) {
+    return template;
+  }
+
+  const triggers: TemplateSection = {
+    name: `${principle.name}/${messages.t('principles.triggers')}`,
+    content: [
+      `## ${messages.t('principles.triggers')}`,
+      ...principle.triggers.map(trigger => messages.t('principles.trigger', {
+        patterns: trigger.patterns.map(pattern => `"${pattern}"`).join(', '),
+        apply: trigger.apply
+      }))
+    ].join('\n\n'),
+    weight: TRIGGER_WEIGHT,
+    required: false,
+    tier: 'basic'
+  };
+
+  return {
+    name: principle.name,
+    title: template?.title || principle.name,
+    sections: [triggers, ...(template?.sections || [])]
+  };
+}
+
+/**
+ * Lint rules of the given principles, tagged with the principle they belong to
+ */
+export function principleLintRules(names: string[]): PrincipleLintRule[] {
+  return getPrinciples()
+    .filter(principle => names.includes(principle.name))
+    .flatMap(principle => (principle.lintRules || []).map(rule => ({
+      id: rule.id,
+      principle: principle.name,
+      check: rule.check.bind(rule)
+    })));
+}
+
+/**
+ * Every principle's emoji aliases, for platforms that strip emojis
+ */
+export function getEmojiAliases(): Record<string, string> {
+  return Object.assign({}, ...getPrinciples().map(principle => principle.aliases || {}));
+}
+
+function checkPlugin(plugin: PrinciplePlugin): string | undefined {
+  if (!plugin || typeof plugin.name !== 'string' || !/^[a-z][a-z0-9-]*$/.test(plugin.name)) {
+    return 'a plugin must export a lowercase `name`';
+  }
+  if (principles.get(plugin.name)?.source === 'builtin') {
+    return `"${plugin.name}" is a built-in principle`;
+  }
+  if (plugin.lintRules?.some(rule => typeof rule.id !== 'string' || typeof rule.check !== 'function')) {
+    return 'every lint rule needs an `id` and a `check(node, context)` function';
+  }
+  return undefined;
+}
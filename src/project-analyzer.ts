@@ -0,0 +1,423 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync, mkdirSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import { ProjectProfile } from './types';
+import { ZEROCODE_DIR } from './project-rules';
+import { MessageCatalog } from './i18n';
+
+// Exact dependency names, so a README mentioning "react" no longer counts
+const NODE_FRAMEWORKS: Record<string, string> = {
+  'react': 'react',
+  'next': 'next',
+  'vue': 'vue',
+  'nuxt': 'nuxt',
+  '@angular/core': 'angular',
+  'svelte': 'svelte',
+  '@sveltejs/kit': 'sveltekit',
+  'express': 'express',
+  'fastify': 'fastify',
+  'koa': 'koa',
+  '@nestjs/core': 'nestjs'
+};
+
+const NODE_TEST_RUNNERS: Record<string, string> = {
+  'jest': 'jest',
+  'vitest': 'vitest',
+  'mocha': 'mocha',
+  '@playwright/test': 'playwright',
+  'cypress': 'cypress'
+};
+
+const NODE_LINTERS: Record<string, string> = {
+  'eslint': 'eslint',
+  'prettier': 'prettier',
+  '@biomejs/biome': 'biome'
+};
+
+const NODE_BUILD_TOOLS: Record<string, string> = {
+  'vite': 'vite',
+  'webpack': 'webpack',
+  'rollup': 'rollup',
+  'esbuild': 'esbuild',
+  'typescript': 'tsc'
+};
+
+// Database clients and ORMs mark a project as having SQL/data code
+const NODE_DATA_PACKAGES = ['pg', 'mysql2', 'sqlite3', 'better-sqlite3', 'knex', 'prisma', '@prisma/client', 'drizzle-orm', 'sequelize', 'typeorm'];
+
+const PYTHON_PACKAGES: Record<string, [keyof ProjectProfile, string]> = {
+  'django': ['frameworks', 'django'],
+  'fastapi': ['frameworks', 'fastapi'],
+  'flask': ['frameworks', 'flask'],
+  'pytest': ['testRunners', 'pytest'],
+  'ruff': ['linters', 'ruff'],
+  'flake8': ['linters', 'flake8'],
+  'black': ['linters', 'black'],
+  'sqlalchemy': ['languages', 'sql'],
+  'psycopg': ['languages', 'sql'],
+  'psycopg2': ['languages', 'sql'],
+  'pandas': ['languages', 'sql']
+};
+
+const RUST_CRATES: Record<string, string> = {
+  'actix-web': 'actix-web',
+  'axum': 'axum',
+  'rocket': 'rocket'
+};
+
+const RUST_DATA_CRATES = ['sqlx', 'diesel', 'rusqlite'];
+
+const GO_MODULES: Record<string, string> = {
+  'github.com/gin-gonic/gin': 'gin',
+  'github.com/labstack/echo': 'echo',
+  'github.com/go-chi/chi': 'chi',
+  'github.com/gofiber/fiber': 'fiber'
+};
+
+const GO_DATA_MODULES = ['github.com/jackc/pgx', 'github.com/jmoiron/sqlx', 'gorm.io/gorm', 'github.com/mattn/go-sqlite3'];
+
+// Config files that reveal a tool even when it is not a direct dependency
+const CONFIG_FILES: [RegExp, keyof ProjectProfile, string][] = [
+  [/^vite\.config\.(js|ts|mjs|cjs)$/, 'buildTools', 'vite'],
+  [/^webpack\.config\.(js|ts|mjs|cjs)$/, 'buildTools', 'webpack'],
+  [/^jest\.config\.(js|ts|mjs|cjs|json)$/, 'testRunners', 'jest'],
+  [/^vitest\.config\.(js|ts|mjs|cjs)$/, 'testRunners', 'vitest'],
+  [/^(\.eslintrc(\.\w+)?|eslint\.config\.(js|ts|mjs|cjs))$/, 'linters', 'eslint'],
+  [/^\.prettierrc(\.\w+)?$/, 'linters', 'prettier'],
+  [/^biome\.jsonc?$/, 'linters', 'biome'],
+  [/^pytest\.ini$/, 'testRunners', 'pytest']
+];
+
+// Checked in order; the first lockfile found wins
+const LOCKFILES: [string, string][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+  ['poetry.lock', 'poetry'],
+  ['uv.lock', 'uv'],
+  ['Pipfile.lock', 'pipenv'],
+  ['Cargo.lock', 'cargo']
+];
+
+/**
+ * Build a structured profile of the project from its manifests, lockfiles and config files
+ */
+export function analyzeProject(projectDir: string = process.cwd()): ProjectProfile {
+  const profile: ProjectProfile = {
+    name: basename(resolve(projectDir)),
+    languages: [],
+    frameworks: [],
+    testRunners: [],
+    linters: [],
+    buildTools: [],
+    manifests: []
+  };
+
+  const files = existsSync(projectDir) ? readdirSync(projectDir) : [];
+
+  analyzePackageJson(projectDir, profile);
+  analyzeTsconfig(projectDir, profile);
+  analyzePython(projectDir, profile);
+  analyzeCargo(projectDir, profile);
+  analyzeGoMod(projectDir, profile);
+
+  for (const file of files) {
+    for (const [pattern, field, value] of CONFIG_FILES) {
+      if (pattern.test(file)) addUnique(profile, field, value);
+    }
+    if (file.endsWith('.sql')) addUnique(profile, 'languages', 'sql');
+  }
+
+  if (!profile.packageManager) {
+    profile.packageManager = LOCKFILES.find(([lockfile]) => files.includes(lockfile))?.[1];
+  }
+
+  analyzeWorkspaces(projectDir, profile);
+
+  return profile;
+}
+
+/**
+ * Save the profile to .zerocode/profile.json and return the path
+ */
+export function saveProfile(profile: ProjectProfile, projectDir: string = process.cwd()): string {
+  const zerocodeDir = join(projectDir, ZEROCODE_DIR);
+  if (!existsSync(zerocodeDir)) {
+    mkdirSync(zerocodeDir, { recursive: true });
+  }
+
+  const profilePath = join(zerocodeDir, 'profile.json');
+  writeFileSync(profilePath, JSON.stringify(profile, null, 2));
+  return profilePath;
+}
+
+/**
+ * Turn a profile into prompt rules, so the AI works with the stack instead of around it
+ */
+export function profileToRules(profile: ProjectProfile, messages: MessageCatalog = new MessageCatalog()): string[] {
+  const rules = [messages.t('profile.rule.project', { project: profile.name })];
+  const stack = [...profile.languages, ...profile.frameworks, ...profile.buildTools];
+
+  if (stack.length > 0) {
+    rules.push(messages.t('profile.rule.stack', { stack: stack.join(', ') }));
+  }
+  if (profile.testRunners.length > 0) {
+    rules.push(messages.t('profile.rule.tests', { runners: profile.testRunners.join(', ') }));
+  }
+  if (profile.packageManager) {
+    rules.push(messages.t('profile.rule.packageManager', { manager: profile.packageManager }));
+  }
+  if (profile.typescript?.strict) {
+    rules.push(messages.t('profile.rule.strict'));
+  }
+  if (profile.linters.length > 0) {
+    rules.push(messages.t('profile.rule.linters', { linters: profile.linters.join(', ') }));
+  }
+  if (profile.monorepo) {
+    rules.push(messages.t('profile.rule.monorepo', {
+      tool: profile.monorepo.tool,
+      packages: profile.monorepo.packages.join(', ')
+    }));
+  }
+
+  return rules;
+}
+
+function analyzePackageJson(projectDir: string, profile: ProjectProfile): void {
+  const pkg = readJson(join(projectDir, 'package.json'));
+  if (!pkg) return;
+
+  profile.manifests.push('package.json');
+  addUnique(profile, 'languages', 'javascript');
+
+  const dependencies = {
+    ...pkg.dependencies,
+    ...pkg.devDependencies,
+    ...pkg.peerDependencies
+  };
+
+  for (const name of Object.keys(dependencies)) {
+    if (NODE_FRAMEWORKS[name]) addUnique(profile, 'frameworks', NODE_FRAMEWORKS[name]);
+    if (NODE_TEST_RUNNERS[name]) addUnique(profile, 'testRunners', NODE_TEST_RUNNERS[name]);
+    if (NODE_LINTERS[name]) addUnique(profile, 'linters', NODE_LINTERS[name]);
+    if (NODE_BUILD_TOOLS[name]) addUnique(profile, 'buildTools', NODE_BUILD_TOOLS[name]);
+    if (NODE_DATA_PACKAGES.includes(name)) addUnique(profile, 'languages', 'sql');
+  }
+
+  if ('typescript' in dependencies) {
+    addUnique(profile, 'languages', 'typescript');
+  }
+
+  // "packageManager": "pnpm@8.15.0" is more reliable than guessing from lockfiles
+  if (typeof pkg.packageManager === 'string') {
+    profile.packageManager = pkg.packageManager.split('@')[0];
+  }
+}
+
+function analyzeTsconfig(projectDir: string, profile: ProjectProfile): void {
+  const tsconfigPath = join(projectDir, 'tsconfig.json');
+  if (!existsSync(tsconfigPath)) return;
+
+  profile.manifests.push('tsconfig.json');
+  addUnique(profile, 'languages', 'typescript');
+
+  const tsconfig = readJson(tsconfigPath);
+  profile.typescript = { strict: Boolean(tsconfig?.compilerOptions?.strict) };
+}
+
+function analyzePython(projectDir: string, profile: ProjectProfile): void {
+  const packages: string[] = [];
+
+  const pyproject = readText(join(projectDir, 'pyproject.toml'));
+  if (pyproject !== null) {
+    profile.manifests.push('pyproject.toml');
+    packages.push(...tomlArray(pyproject, 'project', 'dependencies'));
+    packages.push(...tomlArray(pyproject, 'project.optional-dependencies', 'dev'));
+    packages.push(...tomlKeys(pyproject, 'tool.poetry.dependencies'));
+    packages.push(...tomlKeys(pyproject, 'tool.poetry.group.dev.dependencies'));
+
+    if (/^\[tool\.poetry\]/m.test(pyproject)) profile.packageManager = 'poetry';
+    if (/^\[tool\.pytest/m.test(pyproject)) addUnique(profile, 'testRunners', 'pytest');
+    if (/^\[tool\.ruff/m.test(pyproject)) addUnique(profile, 'linters', 'ruff');
+  }
+
+  const requirements = readText(join(projectDir, 'requirements.txt'));
+  if (requirements !== null) {
+    profile.manifests.push('requirements.txt');
+    packages.push(...requirements.split('\n').filter(line => !line.trim().startsWith('#')));
+    profile.packageManager = profile.packageManager || 'pip';
+  }
+
+  if (existsSync(join(projectDir, 'Pipfile'))) {
+    profile.manifests.push('Pipfile');
+    profile.packageManager = 'pipenv';
+  }
+
+  if (profile.manifests.some(file => ['pyproject.toml', 'requirements.txt', 'Pipfile'].includes(file))) {
+    addUnique(profile, 'languages', 'python');
+  }
+
+  for (const spec of packages) {
+    // "Django>=4.2" -> "django"
+    const name = spec.trim().toLowerCase().match(/^[a-z0-9_.-]+/)?.[0];
+    const match = name ? PYTHON_PACKAGES[name] : undefined;
+    if (match) addUnique(profile, match[0], match[1]);
+  }
+}
+
+function analyzeCargo(projectDir: string, profile: ProjectProfile): void {
+  const cargo = readText(join(projectDir, 'Cargo.toml'));
+  if (cargo === null) return;
+
+  profile.manifests.push('Cargo.toml');
+  addUnique(profile, 'languages', 'rust');
+  addUnique(profile, 'testRunners', 'cargo test');
+  profile.packageManager = 'cargo';
+
+  for (const crate of tomlKeys(cargo, 'dependencies')) {
+    if (RUST_CRATES[crate]) addUnique(profile, 'frameworks', RUST_CRATES[crate]);
+    if (RUST_DATA_CRATES.includes(crate)) addUnique(profile, 'languages', 'sql');
+  }
+
+  const members = tomlArray(cargo, 'workspace', 'members');
+  if (members.length > 0) {
+    profile.monorepo = { tool: 'cargo', packages: expandWorkspaceGlobs(projectDir, members, 'Cargo.toml') };
+  }
+}
+
+function analyzeGoMod(projectDir: string, profile: ProjectProfile): void {
+  const goMod = readText(join(projectDir, 'go.mod'));
+  if (goMod === null) return;
+
+  profile.manifests.push('go.mod');
+  addUnique(profile, 'languages', 'go');
+  addUnique(profile, 'testRunners', 'go test');
+  profile.packageManager = 'go';
+
+  for (const [modulePath, framework] of Object.entries(GO_MODULES)) {
+    if (goMod.includes(modulePath)) addUnique(profile, 'frameworks', framework);
+  }
+  if (GO_DATA_MODULES.some(modulePath => goMod.includes(modulePath))) {
+    addUnique(profile, 'languages', 'sql');
+  }
+}
+
+function analyzeWorkspaces(projectDir: string, profile: ProjectProfile): void {
+  if (profile.monorepo) return;
+
+  const pnpmWorkspace = readText(join(projectDir, 'pnpm-workspace.yaml'));
+  if (pnpmWorkspace !== null) {
+    // Only the `packages:` list matters: lines like "  - 'packages/*'"
+    const packagesList = pnpmWorkspace.split(/^packages:\s*$/m)[1]?.split(/^\S/m)[0] || '';
+    const globs = Array.from(packagesList.matchAll(/^\s*-\s*['"]?([^'"\n]+)['"]?\s*$/gm), match => match[1]);
+    profile.monorepo = { tool: 'pnpm', packages: expandWorkspaceGlobs(projectDir, globs, 'package.json') };
+    return;
+  }
+
+  const pkg = readJson(join(projectDir, 'package.json'));
+  const workspaces = Array.isArray(pkg?.workspaces) ? pkg.workspaces : pkg?.workspaces?.packages;
+  if (Array.isArray(workspaces)) {
+    const tool = profile.packageManager === 'yarn' ? 'yarn' : 'npm';
+    profile.monorepo = { tool, packages: expandWorkspaceGlobs(projectDir, workspaces, 'package.json') };
+    return;
+  }
+
+  const goWork = readText(join(projectDir, 'go.work'));
+  if (goWork !== null) {
+    const modules = Array.from(goWork.matchAll(/^\s*(?:use\s+)?(\.\/[^\s)]+)/gm), match => match[1].replace(/^\.\//, ''));
+    profile.monorepo = { tool: 'go', packages: modules };
+    return;
+  }
+
+  for (const [file, tool] of [['nx.json', 'nx'], ['turbo.json', 'turbo'], ['lerna.json', 'lerna']]) {
+    if (existsSync(join(projectDir, file))) {
+      profile.monorepo = { tool, packages: [] };
+      return;
+    }
+  }
+}
+
+/**
+ * Resolve "packages/*" style workspace globs to directories holding a manifest
+ */
+function expandWorkspaceGlobs(projectDir: string, globs: string[], manifest: string): string[] {
+  const packages: string[] = [];
+
+  for (const glob of globs) {
+    if (glob.startsWith('!')) continue;
+
+    const base = glob.replace(/\/\*\*?$/, '');
+    if (base === glob) {
+      if (existsSync(join(projectDir, glob, manifest))) packages.push(glob);
+      continue;
+    }
+
+    const baseDir = join(projectDir, base);
+    if (!existsSync(baseDir)) continue;
+    for (const entry of readdirSync(baseDir).sort()) {
+      const entryDir = join(baseDir, entry);
+      if (statSync(entryDir).isDirectory() && existsSync(join(entryDir, manifest))) {
+        packages.push(`${base}/${entry}`);
+      }
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Keys of a TOML table, enough for [dependencies]-style sections
+ */
+function tomlKeys(toml: string, table: string): string[] {
+  const body = tomlTable(toml, table);
+  return Array.from(body.matchAll(/^\s*([A-Za-z0-9_.-]+)\s*=/gm), match => match[1].toLowerCase())
+    .filter(key => key !== 'python');
+}
+
+/**
+ * String items of a TOML array like `dependencies = ["django>=4", ...]`
+ */
+function tomlArray(toml: string, table: string, key: string): string[] {
+  const body = tomlTable(toml, table);
+  const match = body.match(new RegExp(`^\\s*${key.replace(/[.-]/g, '\\$&')}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'));
+  if (!match) return [];
+  return Array.from(match[1].matchAll(/["']([^"']+)["']/g), item => item[1]);
+}
+
+function tomlTable(toml: string, table: string): string {
+  const header = new RegExp(`^\\[${table.replace(/[.-]/g, '\\$&')}\\]\\s*$`, 'm');
+  const start = toml.search(header);
+  if (start === -1) return '';
+
+  const rest = toml.slice(start).split('\n').slice(1).join('\n');
+  const next = rest.search(/^\[/m);
+  return next === -1 ? rest : rest.slice(0, next);
+}
+
+function addUnique(profile: ProjectProfile, field: keyof ProjectProfile, value: string): void {
+  const list = profile[field];
+  if (Array.isArray(list) && !list.includes(value)) {
+    list.push(value);
+  }
+}
+
+function readText(filePath: string): string | null {
+  return existsSync(filePath) ? readFileSync(filePath, 'utf-8') : null;
+}
+
+function readJson(filePath: string): any {
+  const text = readText(filePath);
+  if (text === null) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // tsconfig.json allows comments and trailing commas
+    try {
+      return JSON.parse(text.replace(/^\s*\/\/.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '').replace(/,(\s*[}\]])/g, '$1'));
+    } catch {
+      return null;
+    }
+  }
+}
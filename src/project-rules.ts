@@ -0,0 +1,47 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+export const ZEROCODE_DIR = '.zerocode';
+
+/**
+ * Collect team rules from .zerocode/config.json (`rules` array)
+ * and from every .zerocode/rules/*.md file, in that order
+ */
+export function loadProjectRules(projectDir: string = process.cwd()): string[] {
+  return [...readConfigRules(projectDir), ...readRuleFiles(projectDir)];
+}
+
+/**
+ * Merge rule lists, dropping blanks and duplicates but keeping first-seen order
+ */
+export function mergeRules(...sources: (string[] | undefined)[]): string[] {
+  const rules = sources.flatMap(source => source || []).map(rule => rule.trim());
+  return Array.from(new Set(rules.filter(rule => rule.length > 0)));
+}
+
+function readConfigRules(projectDir: string): string[] {
+  const configPath = join(projectDir, ZEROCODE_DIR, 'config.json');
+  if (!existsSync(configPath)) {
+    return [];
+  }
+
+  try {
+    const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    return Array.isArray(config.rules) ? config.rules.filter((rule: unknown) => typeof rule === 'string') : [];
+  } catch {
+    // A broken config should not stop prompt generation
+    return [];
+  }
+}
+
+function readRuleFiles(projectDir: string): string[] {
+  const rulesDir = join(projectDir, ZEROCODE_DIR, 'rules');
+  if (!existsSync(rulesDir)) {
+    return [];
+  }
+
+  return readdirSync(rulesDir)
+    .filter(file => file.endsWith('.md'))
+    .sort()
+    .map(file => readFileSync(join(rulesDir, file), 'utf-8'));
+}
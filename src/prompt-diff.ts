@@ -0,0 +1,208 @@
+import { isFenceLine, nextFence } from './markdown-tree';
+
+export interface SectionChange {
+  title: string; // Heading line of the section, '' for the text before the first heading
+  status: 'added' | 'removed' | 'changed';
+  added: number; // Lines
+  removed: number;
+}
+
+export interface PromptDiff {
+  changed: boolean;
+  sections: SectionChange[];
+  text: string; // Unified diff, one or more hunks per changed section; '' when equal
+}
+
+export const DEFAULT_DIFF_CONTEXT = 3;
+
+interface Section {
+  key: string; // Heading plus occurrence, so repeated headings still pair up in order
+  title: string;
+  start: number; // Index of the section's first line in the document
+  lines: string[];
+}
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  oldIndex: number; // Position in the saved text this line sits at
+  newIndex: number;
+}
+
+/**
+ * Compare a saved prompt with a freshly generated one, section by section.
+ * Sections are matched by their `#`/`##` headings, so an added or dropped
+ * section shows up whole instead of as scattered line changes, and every
+ * hunk is labelled with the section it belongs to. Only the SYSTEM block of
+ * an Ollama Modelfile is split; the wrapper around it diffs as plain lines.
+ */
+export function diffPrompts(
+  saved: string,
+  current: string,
+  labels: { saved: string; current: string },
+  context: number = DEFAULT_DIFF_CONTEXT
+): PromptDiff {
+  const oldSections = splitSections(saved);
+  const newSections = splitSections(current);
+  const sections: SectionChange[] = [];
+  const hunks: string[] = [];
+  // Where the next section starts in each text
+  let oldPosition = 0;
+  let newPosition = 0;
+
+  for (const [before, after] of alignSections(oldSections, newSections)) {
+    const lines = before && after
+      ? diffLines(before.lines, after.lines, before.start, after.start)
+      : before
+        ? before.lines.map((text, index) => ({ type: '-' as const, text, oldIndex: before.start + index, newIndex: newPosition }))
+        : after!.lines.map((text, index) => ({ type: '+' as const, text, oldIndex: oldPosition, newIndex: after!.start + index }));
+    oldPosition = before ? before.start + before.lines.length : oldPosition;
+    newPosition = after ? after.start + after.lines.length : newPosition;
+    if (!lines.some(line => line.type !== ' ')) continue;
+
+    const title = (after || before)!.title;
+    sections.push({
+      title,
+      status: !before ? 'added' : !after ? 'removed' : 'changed',
+      added: lines.filter(line => line.type === '+').length,
+      removed: lines.filter(line => line.type === '-').length
+    });
+    hunks.push(...formatHunks(lines, title, context));
+  }
+
+  return {
+    changed: sections.length > 0,
+    sections,
+    text: hunks.length > 0 ? [`--- ${labels.saved}`, `+++ ${labels.current}`, ...hunks].join('\n') + '\n' : ''
+  };
+}
+
+function splitSections(text: string): Section[] {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const sections: Section[] = [{ key: '', title: '', start: 0, lines: [] }];
+  const seen = new Map<string, number>();
+  const body = promptBody(lines);
+  let fence: string | null = null;
+
+  lines.forEach((line, index) => {
+    if (index === body.end) {
+      // What follows a Modelfile's SYSTEM block is wrapper again, not part of its last section
+      sections.push({ key: 'SYSTEM end', title: '', start: index, lines: [] });
+    }
+    fence = nextFence(fence, line);
+    const inBody = index >= body.start && index < body.end;
+    const heading = inBody && fence === null && !isFenceLine(line) && /^#{1,2} /.test(line);
+    if (heading) {
+      const count = (seen.get(line) || 0) + 1;
+      seen.set(line, count);
+      sections.push({ key: `${line}#${count}`, title: line, start: index, lines: [] });
+    }
+    sections[sections.length - 1].lines.push(line);
+  });
+
+  return sections.filter(section => section.lines.length > 0);
+}
+
+/**
+ * The lines that hold the prompt itself. In an Ollama Modelfile that is the
+ * SYSTEM """ block; its `#` comments and FROM/PARAMETER lines are not headings.
+ */
+function promptBody(lines: string[]): { start: number; end: number } {
+  const system = lines.findIndex(line => /^SYSTEM\s+"""\s*$/i.test(line));
+  const close = system === -1 ? -1 : lines.findIndex((line, index) => index > system && line.trim() === '"""');
+  return close === -1 ? { start: 0, end: lines.length } : { start: system + 1, end: close };
+}
+
+// Pair sections with the same heading, keeping document order; unpaired ones were added or removed
+function alignSections(before: Section[], after: Section[]): [Section | undefined, Section | undefined][] {
+  const common = longestCommon(before.map(section => section.key), after.map(section => section.key));
+  const pairs: [Section | undefined, Section | undefined][] = [];
+  let i = 0;
+  let j = 0;
+
+  for (const [oldIndex, newIndex] of common) {
+    while (i < oldIndex) pairs.push([before[i++], undefined]);
+    while (j < newIndex) pairs.push([undefined, after[j++]]);
+    pairs.push([before[i++], after[j++]]);
+  }
+  while (i < before.length) pairs.push([before[i++], undefined]);
+  while (j < after.length) pairs.push([undefined, after[j++]]);
+
+  return pairs;
+}
+
+function diffLines(before: string[], after: string[], oldStart: number, newStart: number): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  const push = (type: DiffLine['type'], text: string) => lines.push({ type, text, oldIndex: oldStart + i, newIndex: newStart + j });
+  for (const [oldIndex, newIndex] of longestCommon(before, after)) {
+    while (i < oldIndex) { push('-', before[i]); i++; }
+    while (j < newIndex) { push('+', after[j]); j++; }
+    push(' ', before[i]);
+    i++;
+    j++;
+  }
+  while (i < before.length) { push('-', before[i]); i++; }
+  while (j < after.length) { push('+', after[j]); j++; }
+
+  return lines;
+}
+
+/**
+ * Index pairs of a longest common subsequence, in order
+ */
+function longestCommon(a: string[], b: string[]): [number, number][] {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function formatHunks(lines: DiffLine[], title: string, context: number): string[] {
+  const hunks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, position) => position >= index && line.type !== ' ');
+    if (firstChange === -1) break;
+
+    // Grow the hunk while the next change is within reach of its context
+    let end = firstChange;
+    for (let position = firstChange; position < lines.length && position <= end + 2 * context; position++) {
+      if (lines[position].type !== ' ') end = position;
+    }
+    const start = Math.max(index, firstChange - context);
+    const stop = Math.min(lines.length, end + context + 1);
+    const hunk = lines.slice(start, stop);
+
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    const oldStart = oldCount > 0 ? hunk[0].oldIndex + 1 : hunk[0].oldIndex;
+    const newStart = newCount > 0 ? hunk[0].newIndex + 1 : hunk[0].newIndex;
+    hunks.push(
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${title ? ` ${title}` : ''}`,
+      ...hunk.map(line => `${line.type}${line.text}`)
+    );
+    index = stop;
+  }
+
+  return hunks;
+}
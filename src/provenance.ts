@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { GeneratedPrompt, PromptGeneratorConfig, Provenance } from './types';
+import { ZEROCODE_DIR } from './project-rules';
+import { findUpwards } from './config';
+
+export const LOCK_FILE = 'lock.json';
+
+const LOCKFILE_VERSION = 1;
+
+// Everything needed to generate an artifact again, byte for byte
+export interface LockEntry extends Provenance {
+  tokenizer?: string;
+  rules: string[];
+  target?: string; // Export target the file belongs to, if any
+  model?: string; // Base model of the Ollama Modelfile
+  directory?: string; // Where the prompt was generated, relative to the project; the project itself when unset
+}
+
+export interface Lockfile {
+  lockfileVersion: number;
+  artifacts: Record<string, LockEntry>; // By path relative to the project, with forward slashes
+}
+
+export function contentHash(text: string): string {
+  return `sha256:${createHash('sha256').update(text).digest('hex')}`;
+}
+
+/**
+ * The provenance as `key: value` lines, for files to wrap in their own comment syntax
+ */
+export function provenanceLines(provenance: Provenance): string[] {
+  return [
+    `generated-by: zerocode ${provenance.version}`,
+    `platform: ${provenance.platform}`,
+    `complexity: ${provenance.complexity}`,
+    `language: ${provenance.language}`,
+    `principles: ${provenance.principles.join(', ')}`,
+    `sections: ${provenance.sections.join(', ')}`,
+    `hash: ${provenance.hash}`
+  ];
+}
+
+/**
+ * The prompt with its provenance above it in an HTML comment, as saved to markdown files
+ */
+export function stampPrompt(prompt: GeneratedPrompt): string {
+  return ['<!--', ...provenanceLines(prompt.provenance), '-->', '', prompt.systemPrompt].join('\n');
+}
+
+/**
+ * The project directory of the nearest .zerocode/lock.json, in startDir or above it
+ */
+export function findLockRoot(startDir: string = process.cwd()): string | undefined {
+  const lockPath = findUpwards(join(ZEROCODE_DIR, LOCK_FILE), startDir);
+  return lockPath ? dirname(dirname(lockPath)) : undefined;
+}
+
+/**
+ * .zerocode/lock.json, or an empty lockfile when there is none
+ */
+export function readLock(projectDir: string = process.cwd()): Lockfile {
+  const lockPath = join(projectDir, ZEROCODE_DIR, LOCK_FILE);
+  if (!existsSync(lockPath)) {
+    return { lockfileVersion: LOCKFILE_VERSION, artifacts: {} };
+  }
+  return JSON.parse(readFileSync(lockPath, 'utf-8'));
+}
+
+/**
+ * Record how the file at filePath was generated in .zerocode/lock.json
+ */
+export function lockArtifact(
+  projectDir: string,
+  filePath: string,
+  config: PromptGeneratorConfig,
+  provenance: Provenance,
+  exported: { target?: string; model?: string } = {}
+): void {
+  const lock = readLock(projectDir);
+  const directory = lockKey(projectDir, config.projectDir || process.cwd());
+  lock.artifacts[lockKey(projectDir, filePath)] = {
+    ...provenance,
+    tokenizer: config.tokenizer,
+    rules: config.customRules || [],
+    ...exported,
+    directory: directory || undefined
+  };
+
+  const lockPath = join(projectDir, ZEROCODE_DIR, LOCK_FILE);
+  if (!existsSync(dirname(lockPath))) {
+    mkdirSync(dirname(lockPath), { recursive: true });
+  }
+  writeFileSync(lockPath, `${JSON.stringify(lock, null, 2)}\n`);
+}
+
+/**
+ * The generator settings a lock entry was made with, for the project the lockfile is in
+ */
+export function lockedConfig(entry: LockEntry, projectDir: string = process.cwd()): PromptGeneratorConfig {
+  return {
+    platform: entry.platform as PromptGeneratorConfig['platform'],
+    complexity: entry.complexity,
+    language: entry.language,
+    tokenizer: entry.tokenizer,
+    principles: entry.principles,
+    customRules: entry.rules,
+    projectDir: join(projectDir, entry.directory || '')
+  };
+}
+
+export function lockKey(projectDir: string, filePath: string): string {
+  return relative(projectDir, filePath).split(sep).join('/');
+}
@@ -0,0 +1,155 @@
+import { ValidationResult } from './types';
+import { MessageCatalog, DEFAULT_LANGUAGE } from './i18n';
+import { closeOpenFence, isFenceLine, nextFence } from './markdown-tree';
+
+export type ZeusSectionKey = 'objective' | 'implementation' | 'tradeoffs' | 'validation';
+
+export interface ZeusSection {
+  key: ZeusSectionKey;
+  line: number; // 1-based line of the section marker
+  content: string[]; // Text after the marker, up to the next section
+}
+
+interface SectionMarker {
+  key: ZeusSectionKey;
+  emoji: string;
+  labels: string[];
+}
+
+// In the order the prompt asks for them. The Zeus template calls the
+// third section CONSIDERATIONS, the core prompt calls it TRADEOFFS.
+const ZEUS_SECTIONS: SectionMarker[] = [
+  { key: 'objective', emoji: '🎯', labels: ['OBJECTIVE'] },
+  { key: 'implementation', emoji: '🔧', labels: ['IMPLEMENTATION'] },
+  { key: 'tradeoffs', emoji: '⚠️', labels: ['TRADEOFFS', 'CONSIDERATIONS'] },
+  { key: 'validation', emoji: '📈', labels: ['VALIDATION'] }
+];
+
+// Code blocks that only stand in for code
+const PLACEHOLDER_LINE = /^\s*(\.{3}|…|\/\/\s*(\.{3}|todo|your code here|implementation here).*|#\s*(\.{3}|todo).*|pass)\s*$/i;
+
+/**
+ * Find the Zeus sections in an AI reply. Markers may be headings, bold
+ * text or plain lines, with the emoji, the [LABEL] form or just the label.
+ */
+export function parseZeusSections(markdown: string): ZeusSection[] {
+  const sections: ZeusSection[] = [];
+  let current: ZeusSection | null = null;
+  let fence: string | null = null;
+
+  markdown.replace(/\r\n/g, '\n').split('\n').forEach((line, index) => {
+    const inFence = fence !== null;
+    fence = nextFence(fence, line);
+
+    const marker = inFence || isFenceLine(line) ? null : matchMarker(line);
+    if (marker) {
+      current = { key: marker.section.key, line: index + 1, content: marker.rest ? [marker.rest] : [] };
+      sections.push(current);
+    } else if (current) {
+      current.content.push(line);
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Check that a saved AI reply follows the Zeus response structure
+ */
+export function checkResponse(markdown: string, language: string = DEFAULT_LANGUAGE): ValidationResult {
+  const messages = new MessageCatalog(language);
+  const sections = parseZeusSections(markdown);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const marker of ZEUS_SECTIONS) {
+    const found = sections.filter(section => section.key === marker.key);
+    const name = `${marker.emoji} ${marker.labels[0]}`;
+
+    if (found.length === 0) {
+      errors.push(messages.t('check.missing', { section: name }));
+      continue;
+    }
+    if (found.length > 1) {
+      warnings.push(messages.t('check.duplicate', { section: name, lines: found.map(s => s.line).join(', ') }));
+    }
+    if (found.every(section => section.content.join('').trim() === '')) {
+      errors.push(messages.t('check.empty', { section: name, line: found[0].line }));
+    }
+  }
+
+  const implementation = sections.filter(section => section.key === 'implementation');
+  if (implementation.length > 0) {
+    const code = implementation.flatMap(section => codeBlocks(section.content));
+    const realCode = code.filter(block => block.some(line => line.trim() !== '' && !PLACEHOLDER_LINE.test(line)));
+
+    if (code.length === 0) {
+      errors.push(messages.t('check.noCode', { line: implementation[0].line }));
+    } else if (realCode.length === 0) {
+      errors.push(messages.t('check.placeholderCode', { line: implementation[0].line }));
+    }
+  }
+
+  const order = sections.map(section => ZEUS_SECTIONS.findIndex(marker => marker.key === section.key));
+  const outOfOrder = order.findIndex((position, index) => index > 0 && position < order[index - 1]);
+  if (outOfOrder !== -1) {
+    warnings.push(messages.t('check.order', { line: sections[outOfOrder].line }));
+  }
+
+  if (closeOpenFence(markdown) !== markdown) {
+    warnings.push(messages.t('check.unclosedFence'));
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+function matchMarker(line: string): { section: SectionMarker; rest: string } | null {
+  // Strip heading hashes, list bullets and bold/italic around the marker
+  const text = line.replace(/^\s{0,3}(#{1,6}\s+|[-*+]\s+|>\s*)*/, '').replace(/^[*_]+/, '').trim();
+  const formatted = text !== line.trim();
+
+  for (const section of ZEUS_SECTIONS) {
+    // removeEmojis() turns the emoji into a [LABEL] tag for Ollama
+    const prefixes = [section.emoji, section.emoji.replace('\uFE0F', ''), ...section.labels.map(label => `[${label}]`)];
+    const prefix = prefixes.find(p => text.startsWith(p));
+    const afterPrefix = prefix ? text.slice(prefix.length).trim() : text;
+
+    for (const label of section.labels) {
+      // The label must end the marker, so "- Implementation details..." is prose
+      const pattern = new RegExp(`^${label}[*_]*\\s*(?:[:\\-–—]|$)[*_]*\\s*(.*)$`, prefix || formatted ? 'i' : '');
+      const withLabel = afterPrefix.match(pattern);
+
+      // A bare label only counts when it is shouted and followed by a colon
+      if (withLabel && (prefix || formatted || /^[A-Z]+\s*:/.test(afterPrefix))) {
+        return { section, rest: withLabel[1].trim() };
+      }
+    }
+
+    if (prefix) {
+      return { section, rest: afterPrefix.replace(/^[*_:]+\s*/, '') };
+    }
+  }
+  return null;
+}
+
+function codeBlocks(lines: string[]): string[][] {
+  const blocks: string[][] = [];
+  let fence: string | null = null;
+  let block: string[] = [];
+
+  for (const line of lines) {
+    const wasOpen = fence !== null;
+    fence = nextFence(fence, line);
+    if (!wasOpen && fence !== null) {
+      block = [];
+    } else if (wasOpen && fence === null) {
+      blocks.push(block);
+    } else if (wasOpen) {
+      block.push(line);
+    }
+  }
+  // A block cut off by the end of the section still holds code
+  if (fence !== null) blocks.push(block);
+
+  return blocks;
+}
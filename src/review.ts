@@ -0,0 +1,232 @@
+import { execFileSync } from 'child_process';
+import { readFileSync } from 'fs';
+import { PromptGeneratorConfig } from './types';
+import { MessageCatalog } from './i18n';
+import { PlatformOptimizer } from './platform-optimizer';
+import { getTokenCounter } from './tokenizer';
+
+export interface DiffSource {
+  staged?: boolean;
+  range?: string;
+  patchFile?: string;
+  context?: number; // Unchanged lines around each hunk; ignored for patch files
+}
+
+export interface DiffHunk {
+  header: string;
+  lines: string[];
+}
+
+export interface FileDiff {
+  path: string;
+  oldPath?: string;
+  status: 'added' | 'deleted' | 'renamed' | 'modified' | 'binary';
+  hunks: DiffHunk[];
+}
+
+export interface ReviewPrompt {
+  prompt: string;
+  files: number;
+  hunks: number;
+  omitted: string[]; // "path @@ header" of every hunk left out to fit the budget
+  tokens: number;
+  budget: number;
+}
+
+export const DEFAULT_CONTEXT_LINES = 5;
+
+/**
+ * Read a unified diff from git (staged changes or a range) or from a patch file
+ */
+export function readDiff(source: DiffSource, cwd: string = process.cwd()): string {
+  if (source.patchFile) {
+    return readFileSync(source.patchFile, 'utf-8');
+  }
+
+  // Outside a repository `git diff` falls back to comparing paths and fails with a usage dump
+  git(['rev-parse', '--git-dir'], cwd);
+
+  const args = ['diff', '--no-color', '--no-ext-diff', `-U${source.context ?? DEFAULT_CONTEXT_LINES}`];
+  if (source.range) {
+    // A range like --output=file must not reach git as one of its options
+    args.push('--end-of-options', source.range);
+  } else if (source.staged !== false) {
+    args.push('--cached');
+  }
+
+  return git(args, cwd);
+}
+
+/**
+ * Split a unified diff into files and hunks. Works with `git diff` output
+ * and with plain `diff -u` patches.
+ */
+export function parseDiff(diff: string): FileDiff[] {
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  const files: FileDiff[] = [];
+  let current: FileDiff | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const gitHeader = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+    if (gitHeader) {
+      current = { path: gitHeader[2], status: 'modified', hunks: [] };
+      files.push(current);
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = stripPrefix(line.slice(4));
+      const newPath = stripPrefix(lines[i + 1].slice(4));
+      if (!current || current.hunks.length > 0) {
+        current = { path: newPath, status: 'modified', hunks: [] };
+        files.push(current);
+      }
+      if (oldPath === '/dev/null') current.status = 'added';
+      else if (newPath === '/dev/null') current.status = 'deleted';
+      current.path = newPath === '/dev/null' ? oldPath : newPath;
+      i++;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (line.startsWith('new file mode')) current.status = 'added';
+    else if (line.startsWith('deleted file mode')) current.status = 'deleted';
+    else if (line.startsWith('rename from ')) {
+      current.status = 'renamed';
+      current.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('Binary files ')) current.status = 'binary';
+
+    const hunkHeader = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (hunkHeader) {
+      // Count lines instead of looking for the next header, since a removed
+      // line may itself start with "--- "
+      let oldLeft = hunkHeader[1] === undefined ? 1 : parseInt(hunkHeader[1], 10);
+      let newLeft = hunkHeader[2] === undefined ? 1 : parseInt(hunkHeader[2], 10);
+      const hunk: DiffHunk = { header: line, lines: [] };
+
+      while ((oldLeft > 0 || newLeft > 0) && i + 1 < lines.length) {
+        const body = lines[++i];
+        if (body.startsWith('\\')) {
+          hunk.lines.push(body); // "\ No newline at end of file"
+          continue;
+        }
+        if (body.startsWith('-')) oldLeft--;
+        else if (body.startsWith('+')) newLeft--;
+        else {
+          oldLeft--;
+          newLeft--;
+        }
+        hunk.lines.push(body);
+      }
+      if (lines[i + 1]?.startsWith('\\')) hunk.lines.push(lines[++i]);
+
+      current.hunks.push(hunk);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Wrap the changed hunks in a Zeus-structured review request. Hunks are
+ * taken in diff order while they fit the platform's token budget; the
+ * rest are listed by name so the reviewer knows what was left out.
+ */
+export function buildReviewPrompt(
+  files: FileDiff[],
+  config: Pick<PromptGeneratorConfig, 'platform' | 'language' | 'tokenizer'>
+): ReviewPrompt {
+  const messages = new MessageCatalog(config.language);
+  const counter = getTokenCounter(config.tokenizer);
+  const budget = new PlatformOptimizer().getTokenBudget(config.platform);
+  // Leave headroom for separators and the list of left-out hunks
+  const available = budget * 0.9;
+
+  const intro = messages.t('review.prompt');
+  const parts: string[] = [intro];
+  const omitted: string[] = [];
+  const omittedByFile = new Map<string, number>();
+  let used = counter.count(intro);
+  let includedFiles = 0;
+  let includedHunks = 0;
+
+  for (const file of files) {
+    const heading = `## ${file.path}${fileNote(file, messages)}`;
+    const blocks: string[] = [];
+    let fileCost = counter.count(heading);
+
+    for (const hunk of file.hunks) {
+      const block = fenceDiff(hunk);
+      const cost = counter.count(block);
+      if (used + fileCost + cost > available) {
+        omitted.push(`${file.path} ${hunk.header.match(/^@@[^@]*@@/)![0]}`);
+        omittedByFile.set(file.path, (omittedByFile.get(file.path) || 0) + 1);
+        continue;
+      }
+      blocks.push(block);
+      fileCost += cost;
+    }
+
+    // Binary files and pure renames have no hunks but are still part of the change
+    if (blocks.length > 0 || file.hunks.length === 0) {
+      parts.push([heading, ...blocks].join('\n\n'));
+      used += fileCost;
+      includedFiles++;
+      includedHunks += blocks.length;
+    }
+  }
+
+  if (omitted.length > 0) {
+    parts.push(messages.t('review.omitted', {
+      platform: config.platform,
+      hunks: Array.from(omittedByFile.entries()).map(([path, count]) => messages.t('review.omittedFile', { path, count })).join('\n')
+    }));
+  }
+
+  const prompt = parts.join('\n\n') + '\n';
+  return {
+    prompt,
+    files: includedFiles,
+    hunks: includedHunks,
+    omitted,
+    tokens: counter.count(prompt),
+    budget
+  };
+}
+
+function fileNote(file: FileDiff, messages: MessageCatalog): string {
+  switch (file.status) {
+    case 'added':
+      return ` ${messages.t('review.status.added')}`;
+    case 'deleted':
+      return ` ${messages.t('review.status.deleted')}`;
+    case 'renamed':
+      return ` ${messages.t('review.status.renamed', { from: file.oldPath || '' })}`;
+    case 'binary':
+      return ` ${messages.t('review.status.binary')}`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * A diff may contain fences of its own (markdown files), so use a longer one
+ */
+function fenceDiff(hunk: DiffHunk): string {
+  const body = [hunk.header, ...hunk.lines].join('\n');
+  const longest = Math.max(2, ...(body.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}diff\n${body}\n${fence}`;
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+function stripPrefix(path: string): string {
+  const clean = path.split('\t')[0].trim();
+  return clean === '/dev/null' ? clean : clean.replace(/^[ab]\//, '');
+}
@@ -1,21 +1,83 @@
 // Simple commander implementation to avoid external dependencies
 
-interface CommandOption {
-  flags: string;
+import { closestMatch } from './suggestions';
+
+export interface OptionSettings {
+  default?: unknown;
+  choices?: readonly string[]; // Values the option accepts, also offered by shell completion
+  parse?: (value: string) => unknown; // Coerce the text given, e.g. to a number; throw to reject it
+  required?: boolean;
+}
+
+export interface CommandOption extends OptionSettings {
+  flags: string; // e.g. "-p, --platform <platform>"
   description: string;
-  defaultValue?: any;
+  short?: string;
+  long?: string;
+  key: string; // Property on the options object: --dry-run → dryRun
+  value: 'none' | 'required' | 'optional';
+  variadic: boolean; // <value...> takes every value up to the next flag
+  negate: boolean; // Declared as --no-<name>: true unless given
+}
+
+export interface CommandArgument {
+  name: string;
+  description: string;
+  required: boolean;
+  variadic: boolean;
+  choices?: readonly string[];
+}
+
+// The command tree as data, for shell completion
+export interface CommandInfo {
+  name: string;
+  description: string;
+  arguments: CommandArgument[];
+  options: CommandOption[]; // Including those inherited from parent commands
+  commands: CommandInfo[];
 }
 
 interface CommandAction {
-  (options: any): void;
+  (options: any, args: string[]): void | Promise<void>;
+}
+
+// A mistake on the command line: reported with a pointer to the command's help
+class UsageError extends Error {
+  constructor(message: string, public command: Command) {
+    super(message);
+  }
+}
+
+/**
+ * Coerce an option value to a whole number, for `parse` in option settings
+ */
+export function parseInteger(value: string): number {
+  if (!/^-?\d+$/.test(value.trim())) {
+    throw new Error(`"${value}" is not a whole number`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Coerce an option value to a count of one or more, for `parse` in option settings
+ */
+export function parsePositiveInteger(value: string): number {
+  const number = parseInteger(value);
+  if (number < 1) {
+    throw new Error(`"${value}" must be 1 or more`);
+  }
+  return number;
 }
 
 export class Command {
   private _name: string = '';
   private _description: string = '';
   private _version: string = '';
+  private parent?: Command;
   private commands: Map<string, Command> = new Map();
   private options: CommandOption[] = [];
+  private arguments: CommandArgument[] = [];
+  private examples: { usage: string; description: string }[] = [];
   private _action?: CommandAction;
 
   name(name: string): Command {
@@ -33,15 +95,56 @@ export class Command {
     return this;
   }
 
+  /**
+   * Add a subcommand; commands nest, e.g. `config set`
+   */
   command(name: string): Command {
     const cmd = new Command();
     cmd._name = name;
+    cmd.parent = this;
     this.commands.set(name, cmd);
     return cmd;
   }
 
-  option(flags: string, description: string, defaultValue?: any): Command {
-    this.options.push({ flags, description, defaultValue });
+  /**
+   * Declare a positional argument: `<name>` is required, `[name]` optional,
+   * and `...` takes the rest of them
+   */
+  argument(spec: string, description: string = '', choices?: readonly string[]): Command {
+    const match = spec.match(/^([<[])([\w-]+)(\.\.\.)?[>\]]$/);
+    if (!match) {
+      throw new Error(`Invalid argument "${spec}": use <name>, [name] or <name...>`);
+    }
+    this.arguments.push({ name: match[2], description, required: match[1] === '<', variadic: !!match[3], choices });
+    return this;
+  }
+
+  option(flags: string, description: string, settings: OptionSettings = {}): Command {
+    const short = flags.match(/(?:^|[\s,])(-\w)\b/)?.[1];
+    const long = flags.match(/(--[\w-]+)/)?.[1];
+    const negate = !!long?.startsWith('--no-');
+    const name = long ? long.slice(negate ? 5 : 2) : short!.slice(1);
+
+    this.options.push({
+      ...settings,
+      flags,
+      description,
+      short,
+      long,
+      key: name.replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase()),
+      value: flags.includes('<') ? 'required' : flags.includes('[') ? 'optional' : 'none',
+      variadic: flags.includes('...'),
+      negate,
+      default: negate && settings.default === undefined ? true : settings.default
+    });
+    return this;
+  }
+
+  /**
+   * A usage line for the examples in the main help, e.g. ("generate -p cursor", "Prompt for Cursor")
+   */
+  example(usage: string, description: string): Command {
+    this.examples.push({ usage, description });
     return this;
   }
 
@@ -50,173 +153,272 @@ export class Command {
     return this;
   }
 
-  parse(argv?: string[]): void {
+  describe(): CommandInfo {
+    return {
+      name: this._name,
+      description: this._description,
+      arguments: [...this.arguments],
+      options: this.parent ? [...this.inheritedOptions()] : [],
+      commands: Array.from(this.commands.values()).map(command => command.describe())
+    };
+  }
+
+  /**
+   * Run the command the arguments name. Mistakes on the command line and
+   * errors thrown by actions are printed and set a non-zero exit code.
+   */
+  async parse(argv?: string[]): Promise<void> {
     const args = argv || process.argv.slice(2);
-    
-    // Handle global help and version
-    if (args.length === 0) {
-      this.showHelp();
+
+    if (args.length === 1 && (args[0] === '-v' || args[0] === '--version') && this._version) {
+      console.log(this._version);
       return;
     }
 
-    if ((args.includes('-h') || args.includes('--help')) && args.length === 1) {
-      this.showHelp();
-      return;
+    try {
+      await this.dispatch(args);
+    } catch (error: any) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      if (error instanceof UsageError) {
+        console.error(`Run "${error.command.fullName()} --help" for usage.`);
+      }
+      process.exitCode = 1;
     }
+  }
 
-    if (args.includes('-v') || args.includes('--version')) {
-      console.log(this._version);
+  private async dispatch(args: string[]): Promise<void> {
+    // Walk down to the deepest subcommand named
+    let command: Command = this;
+    let index = 0;
+    while (index < args.length && command.commands.has(args[index])) {
+      command = command.commands.get(args[index])!;
+      index++;
+    }
+
+    const rest = args.slice(index);
+    const word = rest[0];
+    const wantsHelp = rest.some((arg, position) => (arg === '-h' || arg === '--help') && !rest.slice(0, position).includes('--'));
+    if (wantsHelp || (!command._action && rest.length === 0)) {
+      command.showHelp();
       return;
     }
 
-    const commandName = args[0];
-    const command = this.commands.get(commandName);
+    if (word !== undefined && !word.startsWith('-') && command.commands.size > 0 && command.arguments.length === 0) {
+      const suggestion = closestMatch(word, Array.from(command.commands.keys()));
+      throw new UsageError(
+        `Unknown command: ${word}${suggestion ? `. Did you mean "${suggestion}"?` : ''}`,
+        command
+      );
+    }
+    if (!command._action) {
+      throw new UsageError(`Unknown option: ${word}`, command);
+    }
+
+    const { options, positional } = command.parseOptions(rest);
+    command.checkArguments(positional);
+    await command._action(options, positional);
+  }
 
-    if (command) {
-      // Check for command-specific help
-      if (args.slice(1).includes('-h') || args.slice(1).includes('--help')) {
-        this.showCommandHelp(command);
-        return;
+  private parseOptions(args: string[]): { options: Record<string, unknown>; positional: string[] } {
+    const known = this.inheritedOptions();
+    const options: Record<string, unknown> = {};
+    const positional: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '--') {
+        positional.push(...args.slice(i + 1));
+        break;
+      }
+      if (!arg.startsWith('-') || arg === '-') {
+        positional.push(arg);
+        continue;
       }
 
-      const options: any = {};
-      
-      // Parse options
-      for (let i = 1; i < args.length; i++) {
-        const arg = args[i];
-        if (arg.startsWith('-')) {
-          // Skip help flags as they're handled above
-          if (arg === '-h' || arg === '--help') {
-            continue;
-          }
-
-          const option = this.findOption(command, arg);
-          if (option) {
-            const key = this.getOptionKey(option.flags);
-            const nextArg = args[i + 1];
-            
-            // Check if this is a boolean flag (no value expected)
-            if (!option.flags.includes('<') && !option.flags.includes('[')) {
-              options[key] = true;
-            } else if (nextArg && !nextArg.startsWith('-')) {
-              // Handle array options (like --rules)
-              if (option.flags.includes('...')) {
-                if (!options[key]) options[key] = [];
-                options[key].push(nextArg);
-                
-                // Continue collecting values until we hit a flag or end of args
-                let j = i + 2;
-                while (j < args.length && !args[j].startsWith('-')) {
-                  options[key].push(args[j]);
-                  j++;
-                }
-                i = j - 1; // Set i to the last consumed argument
-              } else {
-                options[key] = nextArg;
-                i++; // Skip next arg as it's the value
-              }
-            } else {
-              // Use default value if available
-              if (option.defaultValue !== undefined) {
-                options[key] = option.defaultValue;
-              }
-            }
-          } else {
-            console.log(`Unknown option: ${arg}`);
-            this.showCommandHelp(command);
-            return;
-          }
+      // --platform=cursor and -p=cursor carry their value inline
+      const equals = arg.indexOf('=');
+      const flag = equals > 0 ? arg.slice(0, equals) : arg;
+      const inline = equals > 0 ? arg.slice(equals + 1) : undefined;
+
+      const negated = flag.startsWith('--no-')
+        ? known.find(option => option.long === `--${flag.slice(5)}` && option.value === 'none')
+        : undefined;
+      if (negated) {
+        if (inline !== undefined) {
+          throw new UsageError(`Option ${flag} does not take a value`, this);
         }
+        options[negated.key] = false;
+        continue;
       }
 
-      // Set default values for options not provided
-      command.options.forEach(opt => {
-        const key = this.getOptionKey(opt.flags);
-        if (!(key in options) && opt.defaultValue !== undefined) {
-          options[key] = opt.defaultValue;
+      const option = known.find(candidate => candidate.short === flag || candidate.long === flag);
+      if (!option) {
+        const flags = known.flatMap(candidate => [candidate.short, candidate.long]).filter((name): name is string => !!name);
+        const suggestion = flag.startsWith('--') ? closestMatch(flag, flags.filter(name => name.startsWith('--'))) : undefined;
+        throw new UsageError(`Unknown option: ${flag}${suggestion ? `. Did you mean "${suggestion}"?` : ''}`, this);
+      }
+
+      if (option.value === 'none') {
+        if (inline !== undefined) {
+          throw new UsageError(`Option ${flag} does not take a value`, this);
         }
-      });
+        options[option.key] = !option.negate;
+        continue;
+      }
 
-      if (command._action) {
-        command._action(options);
+      const values: string[] = [];
+      if (inline !== undefined) {
+        values.push(inline);
+      } else {
+        while (i + 1 < args.length && (!args[i + 1].startsWith('-') || args[i + 1] === '-')) {
+          values.push(args[++i]);
+          if (!option.variadic) break;
+        }
       }
-    } else {
-      console.log(`❌ Unknown command: ${commandName}`);
-      console.log('Run "ai-prompt --help" for available commands.\n');
+
+      if (values.length === 0) {
+        if (option.value === 'required') {
+          throw new UsageError(`Option ${option.flags} needs a value`, this);
+        }
+        options[option.key] = option.default ?? true;
+        continue;
+      }
+
+      const parsed = values.map(value => this.coerce(option, value));
+      options[option.key] = option.variadic
+        ? [...((options[option.key] as unknown[]) || []), ...parsed]
+        : parsed[0];
     }
+
+    for (const option of known) {
+      if (options[option.key] !== undefined) continue;
+      if (option.required) {
+        throw new UsageError(`Missing required option ${option.flags}`, this);
+      }
+      if (option.default !== undefined) {
+        options[option.key] = option.default;
+      }
+    }
+
+    return { options, positional };
   }
 
-  private findOption(command: Command, flag: string): CommandOption | undefined {
-    return command.options.find(opt => {
-      const flags = opt.flags.split(',').map(f => f.trim());
-      return flags.some(f => {
-        if (flag.startsWith('--')) {
-          // Match long flags like --platform
-          return f.startsWith(flag);
-        } else if (flag.startsWith('-')) {
-          // Match short flags like -p
-          return f.startsWith(flag);
-        }
-        return false;
-      });
-    });
+  private coerce(option: CommandOption, value: string): unknown {
+    const flag = option.long || option.short;
+    if (option.choices && !option.choices.includes(value)) {
+      throw new UsageError(invalidChoice(value, flag!, option.choices), this);
+    }
+    if (!option.parse) {
+      return value;
+    }
+    try {
+      return option.parse(value);
+    } catch (error: any) {
+      throw new UsageError(`Invalid value for ${flag}: ${error.message}`, this);
+    }
   }
 
-  private getOptionKey(flags: string): string {
-    const longFlag = flags.split(',').find(f => f.includes('--'));
-    if (longFlag) {
-      return longFlag.trim().replace(/--(\w+).*/, '$1');
+  private checkArguments(positional: string[]): void {
+    const missing = this.arguments.slice(positional.length).find(argument => argument.required);
+    if (missing) {
+      throw new UsageError(`Missing argument <${missing.name}>`, this);
+    }
+    if (!this.arguments.some(argument => argument.variadic) && positional.length > this.arguments.length) {
+      throw new UsageError(`Unexpected argument: ${positional[this.arguments.length]}`, this);
     }
-    const shortFlag = flags.split(',').find(f => f.includes('-') && !f.includes('--'));
-    if (shortFlag) {
-      return shortFlag.trim().replace(/-(\w).*/, '$1');
+
+    positional.forEach((value, index) => {
+      const argument = this.arguments[Math.min(index, this.arguments.length - 1)];
+      if (argument.choices && !argument.choices.includes(value)) {
+        throw new UsageError(invalidChoice(value, `<${argument.name}>`, argument.choices), this);
+      }
+    });
+  }
+
+  // A subcommand also accepts the options of the commands above it
+  private inheritedOptions(): CommandOption[] {
+    return this.parent && this.parent.parent ? [...this.options, ...this.parent.inheritedOptions()] : this.options;
+  }
+
+  private fullName(): string {
+    const names: string[] = [];
+    for (let command: Command | undefined = this; command; command = command.parent) {
+      names.unshift(command._name);
     }
-    return flags.trim();
+    return names.join(' ');
+  }
+
+  private usage(): string {
+    const args = this.arguments.map(argument => {
+      const name = `${argument.name}${argument.variadic ? '...' : ''}`;
+      return argument.required ? `<${name}>` : `[${name}]`;
+    });
+    const parts = [this.fullName()];
+    if (this.commands.size > 0) parts.push(this._action ? '[command]' : '<command>');
+    parts.push('[options]', ...args);
+    return parts.join(' ');
   }
 
   private showHelp(): void {
-    console.log(`${this._name} - ${this._description}`);
-    console.log(`Version: ${this._version}\n`);
-    
+    if (!this.parent) {
+      console.log(`${this._name} - ${this._description}`);
+      console.log(`Version: ${this._version}\n`);
+    } else {
+      console.log(`${this.fullName()} - ${this._description}\n`);
+    }
+
     console.log('Usage:');
-    console.log(`  ${this._name} <command> [options]\n`);
-    
+    console.log(`  ${this.usage()}\n`);
+
+    if (this.arguments.length > 0) {
+      console.log('Arguments:');
+      this.arguments.forEach(argument => console.log(`  ${argument.name.padEnd(25)} ${argument.description}`));
+      console.log('');
+    }
+
     if (this.commands.size > 0) {
       console.log('Commands:');
+      const width = Math.max(12, ...Array.from(this.commands.keys()).map(name => name.length));
       this.commands.forEach((cmd, name) => {
-        console.log(`  ${name.padEnd(12)} ${cmd._description}`);
+        console.log(`  ${name.padEnd(width)} ${cmd._description}`);
       });
       console.log('');
     }
 
-    console.log('Global Options:');
-    console.log('  -h, --help     Show help information');
-    console.log('  -v, --version  Show version number\n');
-
-    console.log('Examples:');
-    console.log(`  ${this._name} generate                    # Generate with defaults`);
-    console.log(`  ${this._name} generate -p cursor          # Generate for Cursor`);
-    console.log(`  ${this._name} generate -i                 # Interactive mode`);
-    console.log(`  ${this._name} examples                    # Show more examples\n`);
-
-    console.log('For more information on a command:');
-    console.log(`  ${this._name} <command> --help`);
-  }
-
-  private showCommandHelp(command: Command): void {
-    console.log(`${this._name} ${command._name} - ${command._description}\n`);
-    
-    console.log('Usage:');
-    console.log(`  ${this._name} ${command._name} [options]\n`);
-    
-    if (command.options.length > 0) {
+    if (!this.parent) {
+      console.log('Global Options:');
+      console.log('  -h, --help     Show help information');
+      console.log('  -v, --version  Show version number\n');
+    } else {
       console.log('Options:');
-      command.options.forEach(opt => {
-        const flags = opt.flags.padEnd(25);
-        const desc = opt.description;
-        const defaultVal = opt.defaultValue ? ` (default: ${opt.defaultValue})` : '';
-        console.log(`  ${flags} ${desc}${defaultVal}`);
+      this.inheritedOptions().forEach(opt => {
+        const details = [
+          opt.choices ? `choices: ${opt.choices.join(', ')}` : '',
+          opt.required ? 'required' : '',
+          opt.default !== undefined && !opt.negate ? `default: ${opt.default}` : ''
+        ].filter(Boolean);
+        console.log(`  ${opt.flags.padEnd(25)} ${opt.description}${details.length > 0 ? ` (${details.join('; ')})` : ''}`);
+      });
+      console.log(`  ${'-h, --help'.padEnd(25)} Show help for this command\n`);
+    }
+
+    if (this.examples.length > 0) {
+      console.log('Examples:');
+      const width = Math.max(...this.examples.map(example => example.usage.length)) + this._name.length + 1;
+      this.examples.forEach(example => {
+        console.log(`  ${`${this._name} ${example.usage}`.padEnd(width)}  # ${example.description}`);
       });
+      console.log('');
+    }
+
+    if (this.commands.size > 0) {
+      console.log('For more information on a command:');
+      console.log(`  ${this.fullName()} <command> --help`);
     }
   }
-}
\ No newline at end of file
+}
+
+function invalidChoice(value: string, name: string, choices: readonly string[]): string {
+  const suggestion = closestMatch(value, [...choices]);
+  return `Invalid value "${value}" for ${name}.${suggestion ? ` Did you mean "${suggestion}"?` : ''} Choices: ${choices.join(', ')}`;
+}
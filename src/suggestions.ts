@@ -0,0 +1,46 @@
+/**
+ * The choice a typo most likely meant: a case-insensitive match, a unique
+ * prefix ("hun" → "hungarian") or the nearest name by edit distance
+ */
+export function closestMatch(value: string, choices: string[]): string | undefined {
+  const input = value.toLowerCase();
+  const exact = choices.find(choice => choice.toLowerCase() === input);
+  if (exact) return exact;
+
+  const prefixed = choices.filter(choice => choice.toLowerCase().startsWith(input));
+  if (input.length >= 2 && prefixed.length === 1) return prefixed[0];
+
+  // Allow roughly one typo per three characters
+  const maxDistance = Math.max(1, Math.floor(input.length / 3));
+  let best: string | undefined;
+  let bestDistance = maxDistance + 1;
+  for (const choice of choices) {
+    const distance = editDistance(input, choice.toLowerCase());
+    if (distance < bestDistance) {
+      best = choice;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      // Swapped neighbours ("linsu") count as one typo
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current.push(distance);
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
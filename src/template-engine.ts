@@ -0,0 +1,230 @@
+import { PromptGeneratorConfig, ProjectProfile } from './types';
+import { MessageCatalog } from './i18n';
+import { closestMatch } from './suggestions';
+
+export type TemplateValue = string | number | boolean | TemplateValue[] | { [key: string]: TemplateValue };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+export interface RenderResult {
+  text: string;
+  errors: string[];
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string; line: number }
+  | { type: 'if'; path: string; line: number; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; line: number; body: TemplateNode[] };
+
+// {{name.path}}, {{#if path}}, {{else}}, {{/if}}, {{#each path}}, {{/each}}; \{{ is a literal {{
+const TAG = /(\\?)\{\{\s*([#/][\w-]*|else(?![\w.@-]))?\s*([A-Za-z_@][\w.@-]*)?\s*\}\}/g;
+
+// Namespaces where any key may be asked for: stack.react is false when React is not used
+const OPEN_NAMESPACES = ['stack'];
+
+/**
+ * Values templates can use: the detected project and the prompt settings
+ */
+export function buildTemplateContext(profile: ProjectProfile, config: Partial<PromptGeneratorConfig>): TemplateContext {
+  const tools = [...profile.languages, ...profile.frameworks, ...profile.buildTools, ...profile.testRunners, ...profile.linters];
+
+  return {
+    project: {
+      name: profile.name,
+      languages: profile.languages,
+      frameworks: profile.frameworks,
+      testRunners: profile.testRunners,
+      linters: profile.linters,
+      buildTools: profile.buildTools,
+      packageManager: profile.packageManager || '',
+      strict: !!profile.typescript?.strict,
+      monorepo: profile.monorepo?.tool || '',
+      packages: profile.monorepo?.packages || []
+    },
+    stack: Object.fromEntries(tools.map(tool => [tool, true])),
+    config: {
+      platform: config.platform || '',
+      complexity: config.complexity || '',
+      language: config.language || '',
+      principles: config.principles || [],
+      rules: config.customRules || []
+    }
+  };
+}
+
+/**
+ * Fill in {{variables}}, {{#if}}/{{else}}/{{/if}} and {{#each}}/{{/each}}
+ * blocks. Every variable is checked, including those in branches not taken,
+ * so a typo is an error instead of a silent blank.
+ */
+export function renderTemplate(template: string, context: TemplateContext, messages: MessageCatalog = new MessageCatalog()): RenderResult {
+  const errors: string[] = [];
+  const nodes = parseNodes(template, errors, messages);
+
+  checkPaths(nodes, context, false, errors, messages);
+  if (errors.length > 0) {
+    return { text: template, errors };
+  }
+
+  return { text: renderNodes(nodes, [context]), errors };
+}
+
+function parseNodes(template: string, errors: string[], messages: MessageCatalog): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `target` is where their children go
+  const open: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[] }[] = [];
+  const target = () => (open.length > 0 ? open[open.length - 1].target : root);
+
+  let position = 0;
+  for (const match of template.matchAll(TAG)) {
+    const [tag, escape, keyword, path] = match;
+    let start = match.index!;
+    let end = start + tag.length;
+    const line = template.slice(0, start).split('\n').length;
+
+    if (escape) {
+      target().push({ type: 'text', text: template.slice(position, start) + tag.slice(1) });
+      position = end;
+      continue;
+    }
+
+    // A block tag alone on its line takes the whole line with it
+    if (keyword) {
+      const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+      const lineEnd = template.indexOf('\n', end);
+      const before = template.slice(lineStart, start);
+      const after = template.slice(end, lineEnd === -1 ? template.length : lineEnd);
+      if (before.trim() === '' && after.trim() === '' && lineStart >= position) {
+        start = lineStart;
+        end = lineEnd === -1 ? template.length : lineEnd + 1;
+      }
+    }
+
+    if (start > position) {
+      target().push({ type: 'text', text: template.slice(position, start) });
+    }
+    position = end;
+
+    if (!keyword) {
+      target().push({ type: 'value', path: path!, line });
+    } else if ((keyword === '#if' || keyword === '#each') && path) {
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = keyword === '#if'
+        ? { type: 'if', path, line, then: [], otherwise: [] }
+        : { type: 'each', path, line, body: [] };
+      target().push(node);
+      open.push({ node, target: node.type === 'if' ? node.then : node.body });
+    } else if (keyword === 'else' && !path && open.length > 0 && open[open.length - 1].node.type === 'if') {
+      const block = open[open.length - 1];
+      block.target = (block.node as Extract<TemplateNode, { type: 'if' }>).otherwise;
+    } else if ((keyword === '/if' || keyword === '/each') && !path && open.length > 0 &&
+               open[open.length - 1].node.type === keyword.slice(1)) {
+      open.pop();
+    } else {
+      errors.push(messages.t('template.unexpectedTag', { tag: tag.trim(), line }));
+    }
+  }
+
+  if (position < template.length) {
+    target().push({ type: 'text', text: template.slice(position) });
+  }
+  for (const block of open) {
+    errors.push(messages.t('template.unclosedBlock', { tag: `#${block.node.type} ${block.node.path}`, line: block.node.line }));
+  }
+
+  return root;
+}
+
+function checkPaths(nodes: TemplateNode[], context: TemplateContext, inLoop: boolean, errors: string[], messages: MessageCatalog): void {
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+
+    const loopVariable = node.path === 'this' || node.path.startsWith('this.') || node.path === '@index';
+    if (loopVariable && !inLoop) {
+      errors.push(messages.t('template.outsideLoop', { variable: node.path, line: node.line }));
+    } else if (!loopVariable && lookup(context, node.path) === undefined) {
+      const suggestion = closestMatch(node.path, knownPaths(context));
+      errors.push(messages.t(suggestion ? 'template.unknownWithSuggestion' : 'template.unknown', {
+        variable: node.path,
+        line: node.line,
+        suggestion: suggestion || ''
+      }));
+    }
+
+    if (node.type === 'if') {
+      checkPaths(node.then, context, inLoop, errors, messages);
+      checkPaths(node.otherwise, context, inLoop, errors, messages);
+    } else if (node.type === 'each') {
+      checkPaths(node.body, context, true, errors, messages);
+    }
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'value':
+        return printable(resolve(scopes, node.path));
+      case 'if':
+        return renderNodes(truthy(resolve(scopes, node.path)) ? node.then : node.otherwise, scopes);
+      case 'each': {
+        const items = resolve(scopes, node.path);
+        return (Array.isArray(items) ? items : [])
+          .map((item, index) => renderNodes(node.body, [{ this: item, '@index': index }, ...scopes]))
+          .join('');
+      }
+    }
+  }).join('');
+}
+
+function resolve(scopes: TemplateContext[], path: string): TemplateValue | undefined {
+  for (const scope of scopes) {
+    const value = lookup(scope, path);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function lookup(context: TemplateContext, path: string): TemplateValue | undefined {
+  const [root, ...rest] = path.split('.');
+  let value: TemplateValue | undefined = context[root];
+
+  for (const key of rest) {
+    if (value === undefined || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+    value = value[key];
+  }
+
+  if (value === undefined && OPEN_NAMESPACES.includes(root) && rest.length === 1 && root in context) {
+    return false;
+  }
+  return value;
+}
+
+function knownPaths(context: TemplateContext, prefix: string = ''): string[] {
+  return Object.entries(context).flatMap(([key, value]) => {
+    const path = `${prefix}${key}`;
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? [path, ...knownPaths(value, `${path}.`)]
+      : [path];
+  });
+}
+
+function truthy(value: TemplateValue | undefined): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function printable(value: TemplateValue | undefined): string {
+  if (Array.isArray(value)) {
+    return value.map(printable).join(', ');
+  }
+  if (value !== undefined && typeof value === 'object') {
+    return Object.keys(value).join(', ');
+  }
+  return value === undefined ? '' : String(value);
+}
@@ -0,0 +1,128 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import { COMPLEXITY_LEVELS, ComplexityLevel, PromptTemplate, TemplateSection } from './types';
+import { isFenceLine, nextFence } from './markdown-tree';
+import { DEFAULT_LANGUAGE } from './i18n';
+
+// Templates ship next to dist/ and src/, so one path works for both.
+// English ones sit at the top; translations in a directory per language.
+export const TEMPLATES_DIR = join(__dirname, '..', 'templates');
+
+// Order in which the shipped templates appear in the prompt
+const TEMPLATE_ORDER = ['hickey', 'linus', 'zeus'];
+
+// Sections without a weight annotation lose a point per position,
+// so earlier sections of a template win when the budget is tight
+const DEFAULT_WEIGHT = 50;
+
+export class TemplateLoader {
+  constructor(private templatesDir: string = TEMPLATES_DIR) {}
+
+  /**
+   * Load every template in the templates directory, translated where it can be
+   */
+  public loadAll(language: string = DEFAULT_LANGUAGE): PromptTemplate[] {
+    return this.names().map(name => this.load(name, language));
+  }
+
+  /**
+   * Names of the templates in the templates directory, in prompt order
+   */
+  public names(): string[] {
+    if (!existsSync(this.templatesDir)) {
+      return [];
+    }
+
+    return readdirSync(this.templatesDir)
+      .filter(file => file.endsWith('.md'))
+      .map(file => basename(file, '.md'))
+      .sort((a, b) => this.orderOf(a) - this.orderOf(b) || a.localeCompare(b));
+  }
+
+  /**
+   * Load a single template by name (file name without .md), in the given
+   * language when it has been translated and in English otherwise
+   */
+  public load(name: string, language: string = DEFAULT_LANGUAGE): PromptTemplate {
+    const translated = join(this.templatesDir, language, `${name}.md`);
+    const file = language !== DEFAULT_LANGUAGE && existsSync(translated) ? translated : join(this.templatesDir, `${name}.md`);
+    return parseTemplate(name, readFileSync(file, 'utf-8'));
+  }
+
+  private orderOf(name: string): number {
+    const index = TEMPLATE_ORDER.indexOf(name);
+    return index === -1 ? TEMPLATE_ORDER.length : index;
+  }
+}
+
+/**
+ * Split a template into its `## ` sections.
+ *
+ * A section may carry an annotation comment on the line after its heading:
+ *   <!-- weight: 90, tier: advanced, required -->
+ * The comment is stripped from the section content.
+ */
+export function parseTemplate(name: string, markdown: string): PromptTemplate {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const sections: TemplateSection[] = [];
+  let title = '';
+  let current: { heading: string; lines: string[] } | null = null;
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current) {
+      sections.push(buildSection(name, current.heading, current.lines, sections.length));
+    }
+  };
+
+  for (const line of lines) {
+    fence = nextFence(fence, line);
+    const inFence = fence !== null || isFenceLine(line);
+
+    if (!inFence && !title && /^# /.test(line)) {
+      title = line.slice(2).trim();
+      continue;
+    }
+
+    if (!inFence && /^## /.test(line)) {
+      flush();
+      current = { heading: line.slice(3).trim(), lines: [line] };
+      continue;
+    }
+
+    if (current) {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return { name, title: title || name, sections };
+}
+
+function buildSection(template: string, heading: string, lines: string[], index: number): TemplateSection {
+  let weight = Math.max(DEFAULT_WEIGHT - index, 1);
+  let required = false;
+  let tier: ComplexityLevel = 'basic';
+
+  const annotation = lines[1]?.match(/^<!--\s*(.*?)\s*-->$/);
+  if (annotation) {
+    lines.splice(1, 1);
+    for (const part of annotation[1].split(',').map(p => p.trim())) {
+      const weightMatch = part.match(/^weight:\s*(\d+)$/);
+      if (weightMatch) weight = parseInt(weightMatch[1], 10);
+      const tierMatch = part.match(/^tier:\s*(\w+)$/);
+      if (tierMatch && COMPLEXITY_LEVELS.includes(tierMatch[1] as ComplexityLevel)) {
+        tier = tierMatch[1] as ComplexityLevel;
+      }
+      if (part === 'required') required = true;
+    }
+  }
+
+  return {
+    name: `${template}/${heading}`,
+    content: lines.join('\n').trim(),
+    weight,
+    required,
+    tier
+  };
+}
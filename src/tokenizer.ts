@@ -0,0 +1,94 @@
+export interface TokenCounter {
+  readonly name: string;
+  count(text: string): number;
+}
+
+export const DEFAULT_TOKEN_COUNTER = 'estimate';
+
+// Same split as cl100k-style tokenizers: contractions, words with their
+// leading space, digit groups of up to three, punctuation runs, whitespace
+const PRE_TOKENIZE = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+// Markdown and code punctuation that BPE vocabularies learn as one token
+const MERGED_PUNCTUATION = new Set([
+  '```', '##', '###', '####', '**', '->', '=>', '==', '===', '!=', '!==', '<=', '>=',
+  '//', '/*', '*/', '()', '();', '{}', '[]', '...', '::', '`,', '`.', '.', ',', ':', ';'
+]);
+
+/**
+ * Offline estimate of what a byte-level BPE tokenizer would count. Text is
+ * split the way BPE pre-tokenizers split it, then each piece is priced by
+ * rules of thumb for how a typical vocabulary merges it. There is no merge
+ * table, so counts are close but not exact; register a counter backed by
+ * the model's vocabulary when they must be.
+ */
+export class EstimateTokenCounter implements TokenCounter {
+  public readonly name = 'estimate';
+
+  public count(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(PRE_TOKENIZE) || []) {
+      tokens += this.countPiece(piece);
+    }
+    return tokens;
+  }
+
+  private countPiece(piece: string): number {
+    const body = piece.startsWith(' ') && piece.length > 1 ? piece.slice(1) : piece;
+
+    if (/^\s+$/.test(piece)) {
+      return 1;
+    }
+
+    // Anything outside ASCII is merged from raw UTF-8 bytes, and far less of it is learned
+    const bytes = Buffer.byteLength(body, 'utf-8');
+    if (bytes > body.length) {
+      return Math.max(1, Math.ceil(bytes / 3));
+    }
+
+    if (/^[A-Za-z]+$/.test(body)) {
+      // Common words are single tokens; longer ones split into a few subwords
+      return 1 + Math.floor((body.length - 1) / 9);
+    }
+
+    if (/^\d+$/.test(body) || MERGED_PUNCTUATION.has(body)) {
+      return 1;
+    }
+
+    return Math.ceil(body.length / 3);
+  }
+}
+
+/**
+ * The old `length / 4` rule, kept for callers that want a cheap estimate
+ */
+export class CharacterTokenCounter implements TokenCounter {
+  public readonly name = 'chars';
+
+  public count(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
+
+const counters: Map<string, TokenCounter> = new Map();
+registerTokenCounter(new EstimateTokenCounter());
+registerTokenCounter(new CharacterTokenCounter());
+
+/**
+ * Make a counter available by name, e.g. one backed by a model's real vocabulary
+ */
+export function registerTokenCounter(counter: TokenCounter): void {
+  counters.set(counter.name, counter);
+}
+
+export function getTokenCounter(name: string = DEFAULT_TOKEN_COUNTER): TokenCounter {
+  const counter = counters.get(name);
+  if (!counter) {
+    throw new Error(`Unknown token counter: ${name}. Available: ${getTokenCounterNames().join(', ')}`);
+  }
+  return counter;
+}
+
+export function getTokenCounterNames(): string[] {
+  return Array.from(counters.keys());
+}
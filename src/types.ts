@@ -1,10 +1,23 @@
 // Core type definitions for the AI prompt generator
 
+export type ComplexityLevel = 'basic' | 'advanced' | 'expert';
+
+// Each tier includes everything from the tiers before it
+export const COMPLEXITY_LEVELS: ComplexityLevel[] = ['basic', 'advanced', 'expert'];
+
+// A section's place in COMPLEXITY_LEVELS; sections without a tier are basic
+export function tierRank(section: { tier?: ComplexityLevel }): number {
+  return COMPLEXITY_LEVELS.indexOf(section.tier || 'basic');
+}
+
 export interface PromptGeneratorConfig {
-  platform: 'cursor' | 'claude' | 'ollama' | 'universal';
-  complexity: 'basic' | 'advanced' | 'expert';
-  language: 'english' | 'hungarian';
+  platform: 'cursor' | 'claude' | 'ollama' | 'copilot' | 'universal';
+  complexity: ComplexityLevel;
+  language: string; // Any locale with a catalog in locales/, e.g. 'english' or 'hungarian'
   customRules?: string[];
+  tokenizer?: string; // Name of a registered token counter, 'estimate' by default
+  principles?: string[]; // Templates to include, e.g. ['hickey', 'zeus']; all when left out
+  projectDir?: string; // Project whose profile and example packs go in; the current directory when left out
 }
 
 export interface GeneratedPrompt {
@@ -12,6 +25,35 @@ export interface GeneratedPrompt {
   instructions: string;
   examples: string[];
   platform: string;
+  warnings: string[];
+  appliedOptimizations: string[];
+  droppedSections: string[]; // Sections removed to fit the platform's limits
+  tokens: TokenReport;
+  provenance: Provenance;
+}
+
+// How a prompt was made; written above it in every file ZeroCode generates
+export interface Provenance {
+  version: string; // ZeroCode version
+  platform: string;
+  complexity: ComplexityLevel;
+  language: string;
+  principles: string[];
+  sections: string[]; // Sections that made it into the prompt, in order
+  hash: string; // sha256 of the prompt text, without the header
+}
+
+export interface SectionTokenCount {
+  name: string;
+  tokens: number;
+  included: boolean;
+}
+
+export interface TokenReport {
+  counter: string;
+  budget: number;
+  total: number;
+  sections: SectionTokenCount[];
 }
 
 export interface TemplateSection {
@@ -19,10 +61,30 @@ export interface TemplateSection {
   readonly content: string;
   readonly weight: number;
   readonly required: boolean;
+  readonly tier?: ComplexityLevel;
+}
+
+export interface PromptTemplate {
+  readonly name: string;
+  readonly title: string;
+  readonly sections: TemplateSection[];
 }
 
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
-}
\ No newline at end of file
+}
+
+export interface ProjectProfile {
+  name: string;
+  languages: string[];
+  frameworks: string[];
+  testRunners: string[];
+  linters: string[];
+  buildTools: string[];
+  packageManager?: string;
+  typescript?: { strict: boolean };
+  monorepo?: { tool: string; packages: string[] };
+  manifests: string[];
+}
@@ -0,0 +1,7 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// package.json sits one level above both src/ and dist/
+const packageJson = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'));
+
+export const VERSION: string = packageJson.version;